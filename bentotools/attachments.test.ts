@@ -0,0 +1,143 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+  AttachmentTooLargeError,
+  createResendAttachmentFetcher,
+  withAttachmentContent,
+  type AttachmentFetcher,
+} from "./attachments.ts";
+import { createResendLocal } from "./resend-local.ts";
+import { buildEmail } from "./runtime.ts";
+
+const csv = new TextEncoder().encode("a,b\n1,2\n");
+
+const resend = createResendLocal();
+resend.addAttachment("email-1", "att-1", {
+  filename: "data.csv",
+  content_type: "text/csv",
+  content: csv,
+});
+const server = Bun.serve({ port: 0, fetch: resend.fetch });
+const apiUrl = server.url.origin;
+
+afterAll(() => server.stop(true));
+
+const attachment = {
+  id: "att-1",
+  filename: "data.csv",
+  content_type: "text/csv",
+  size: csv.byteLength,
+};
+
+describe("createResendAttachmentFetcher", () => {
+  test("downloads attachment content through the receiving API", async () => {
+    const fetchAttachment = createResendAttachmentFetcher({
+      apiKey: "re_test",
+      apiUrl,
+    });
+    expect(await fetchAttachment("email-1", attachment)).toEqual(csv);
+  });
+
+  test("rejects attachments over the size limit", async () => {
+    const fetchAttachment = createResendAttachmentFetcher({
+      apiKey: "re_test",
+      apiUrl,
+      maxBytes: 4,
+    });
+    await expect(fetchAttachment("email-1", attachment)).rejects.toThrow(
+      AttachmentTooLargeError
+    );
+  });
+
+  test("serves attachments registered over HTTP", async () => {
+    const response = await fetch(
+      `${apiUrl}/_attachments/email-2/att-2?filename=notes.txt`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: "hello",
+      }
+    );
+    expect(response.status).toBe(201);
+
+    const fetchAttachment = createResendAttachmentFetcher({
+      apiKey: "re_test",
+      apiUrl,
+    });
+    const content = await fetchAttachment("email-2", {
+      id: "att-2",
+      filename: "notes.txt",
+      content_type: "text/plain",
+      size: 5,
+    });
+    expect(new TextDecoder().decode(content)).toBe("hello");
+  });
+
+  test("reports missing attachments", async () => {
+    const fetchAttachment = createResendAttachmentFetcher({
+      apiKey: "re_test",
+      apiUrl,
+    });
+    await expect(
+      fetchAttachment("email-1", { ...attachment, id: "missing" })
+    ).rejects.toThrow('Failed to fetch attachment "data.csv": HTTP 404');
+  });
+});
+
+describe("withAttachmentContent", () => {
+  test("fetches lazily and only once", async () => {
+    let calls = 0;
+    const fetchAttachment: AttachmentFetcher = async () => {
+      calls++;
+      return csv;
+    };
+    const [loaded] = withAttachmentContent(
+      "email-1",
+      [attachment],
+      fetchAttachment
+    );
+    expect(calls).toBe(0);
+    expect(await loaded!.getContent()).toEqual(csv);
+    await loaded!.getContent();
+    expect(calls).toBe(1);
+  });
+
+  test("checks the declared size before fetching", async () => {
+    let calls = 0;
+    const [loaded] = withAttachmentContent(
+      "email-1",
+      [{ ...attachment, size: 100 }],
+      async () => {
+        calls++;
+        return csv;
+      },
+      10
+    );
+    await expect(loaded!.getContent()).rejects.toThrow(
+      'Attachment "data.csv" is 100 bytes, which exceeds the limit of 10 bytes'
+    );
+    expect(calls).toBe(0);
+  });
+
+  test("keeps the attachment metadata serializable", () => {
+    const [loaded] = withAttachmentContent(
+      "email-1",
+      [attachment],
+      async () => csv
+    );
+    expect(JSON.parse(JSON.stringify(loaded))).toEqual(attachment);
+  });
+});
+
+test("buildEmail gives tools lazy attachment content", async () => {
+  const email = buildEmail(
+    { id: "email-1", attachments: [attachment] },
+    {
+      fetchAttachment: createResendAttachmentFetcher({
+        apiKey: "re_test",
+        apiUrl,
+      }),
+    }
+  );
+  const content = await email.attachments![0]!.getContent();
+  expect(new TextDecoder().decode(content)).toBe("a,b\n1,2\n");
+});
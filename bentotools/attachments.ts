@@ -0,0 +1,128 @@
+/**
+ * Inbound Attachment Content
+ *
+ * Resend's email.received webhook only carries attachment metadata. The bytes
+ * are fetched on demand from the Resend receiving API:
+ *   GET /emails/receiving/{email_id}/attachments/{attachment_id} → download_url
+ *   GET download_url → content
+ *
+ * Tools get the content lazily through attachment.getContent(), so emails
+ * whose attachments are never read cost no extra requests. Attachments larger
+ * than ATTACHMENT_MAX_BYTES (default: 10 MB) are rejected with
+ * AttachmentTooLargeError before or after downloading.
+ */
+
+import type { EmailAttachment, ToolAttachment } from "bentotools";
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_RESEND_API_URL = "https://api.resend.com";
+
+// Fetches the content of one attachment of an email
+export type AttachmentFetcher = (
+  emailId: string,
+  attachment: EmailAttachment
+) => Promise<Uint8Array>;
+
+export class AttachmentTooLargeError extends Error {
+  constructor(filename: string, size: number, maxBytes: number) {
+    super(
+      `Attachment "${filename}" is ${size} bytes, which exceeds the limit of ${maxBytes} bytes`
+    );
+    this.name = "AttachmentTooLargeError";
+  }
+}
+
+// Resolve the attachment size limit
+export function attachmentMaxBytes(): number {
+  return Number(
+    process.env.ATTACHMENT_MAX_BYTES || DEFAULT_ATTACHMENT_MAX_BYTES
+  );
+}
+
+// Create a fetcher for the Resend receiving API
+// apiUrl can point at the local stand-in from resend-local.ts
+export function createResendAttachmentFetcher(options: {
+  apiKey: string;
+  apiUrl?: string;
+  maxBytes?: number;
+}): AttachmentFetcher {
+  const apiUrl = options.apiUrl || DEFAULT_RESEND_API_URL;
+  const maxBytes = options.maxBytes ?? attachmentMaxBytes();
+
+  return async (emailId, attachment) => {
+    if (!attachment.id) {
+      throw new Error(`Attachment "${attachment.filename}" has no id`);
+    }
+
+    const metaResponse = await fetch(
+      `${apiUrl}/emails/receiving/${emailId}/attachments/${attachment.id}`,
+      { headers: { Authorization: `Bearer ${options.apiKey}` } }
+    );
+    if (!metaResponse.ok) {
+      throw new Error(
+        `Failed to fetch attachment "${attachment.filename}": HTTP ${metaResponse.status}`
+      );
+    }
+    const meta = (await metaResponse.json()) as {
+      download_url: string;
+      size?: number;
+    };
+
+    // Check the announced size before downloading anything
+    const size = meta.size ?? attachment.size;
+    if (size > maxBytes) {
+      throw new AttachmentTooLargeError(attachment.filename, size, maxBytes);
+    }
+
+    const download = await fetch(meta.download_url);
+    if (!download.ok) {
+      throw new Error(
+        `Failed to download attachment "${attachment.filename}": HTTP ${download.status}`
+      );
+    }
+    const content = new Uint8Array(await download.arrayBuffer());
+    if (content.byteLength > maxBytes) {
+      throw new AttachmentTooLargeError(
+        attachment.filename,
+        content.byteLength,
+        maxBytes
+      );
+    }
+    return content;
+  };
+}
+
+// Add a lazy getContent() to each attachment
+// getContent is non-enumerable so the attachment still serializes to the
+// original webhook metadata, and successfully fetched content is cached
+export function withAttachmentContent(
+  emailId: string,
+  attachments: EmailAttachment[],
+  fetchAttachment: AttachmentFetcher,
+  maxBytes: number = attachmentMaxBytes()
+): ToolAttachment[] {
+  return attachments.map((attachment) => {
+    let content: Promise<Uint8Array> | undefined;
+    const getContent = () => {
+      if (attachment.size > maxBytes) {
+        return Promise.reject(
+          new AttachmentTooLargeError(
+            attachment.filename,
+            attachment.size,
+            maxBytes
+          )
+        );
+      }
+      // Failed fetches are not cached, so a later call can retry
+      content ??= fetchAttachment(emailId, attachment).catch((error) => {
+        content = undefined;
+        throw error;
+      });
+      return content;
+    };
+    return Object.defineProperty({ ...attachment }, "getContent", {
+      value: getContent,
+      enumerable: false,
+    }) as ToolAttachment;
+  });
+}
@@ -0,0 +1,230 @@
+#!/usr/bin/env bun
+/**
+ * bentotools CLI
+ *
+ * Usage:
+ *   bentotools test [path/to/index.ts]   Run $TESTS offline against the tool functions
+ *   bentotools replay <stream> [options] Re-append inbox/<tool> or errors/<tool>
+ *                                        records to inbox/<tool> (see replay.ts)
+ *
+ * Replay options:
+ *   --from-seq N, --to-seq N   Sequence number range (inclusive)
+ *   --since T, --until T       Time range (ISO 8601)
+ *   --sender S, --subject S    Only emails whose sender/subject contain S
+ *   --limit N                  Refuse to replay more than N records (default 10)
+ *   --dry-run                  Only list the matching records
+ */
+
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { compileModule } from "./compile.ts";
+import {
+  ConfigError,
+  formatConfigReport,
+  loadConfig,
+  type Config,
+} from "./config.ts";
+import {
+  DEFAULT_REPLAY_LIMIT,
+  formatCandidate,
+  replay,
+  ReplayError,
+  type ReplayOptions,
+  type ReplayStore,
+} from "./replay.ts";
+import { runToolTests } from "./testing.ts";
+
+// Run the $TESTS of a tools module without S2, Resend or Bento
+async function testCommand(args: string[]) {
+  const indexPath = resolve(args[0] || "./index.ts");
+  const { tools, tests, errors } = compileModule(await import(indexPath));
+
+  for (const error of errors) {
+    console.error(`❌ Export '${error.exportName}': ${error.message}`);
+  }
+  if (errors.length > 0) {
+    process.exit(1);
+  }
+
+  if (tests.length === 0) {
+    console.log(`⚠ No $TESTS found in ${indexPath}`);
+    return;
+  }
+
+  console.log(`🧪 Running ${tests.length} test(s) from ${indexPath}...`);
+  const results = await runToolTests(tools, tests);
+
+  for (const result of results) {
+    if (result.passed) {
+      console.log(`  ✓ ${result.test.stream}: "${result.test.input}"`);
+    } else {
+      console.error(`  ✗ ${result.test.stream}: "${result.test.input}"`);
+      console.error(`    ${result.error}`);
+    }
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  console.log(
+    `\n${passed === results.length ? "✅" : "❌"} Test results: ${passed}/${
+      results.length
+    } passed`
+  );
+
+  if (passed !== results.length) {
+    process.exit(1);
+  }
+}
+
+// Parse a --from-seq style option, exiting on anything but a whole number
+function parseCount(name: string, value: string | undefined) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    console.error(
+      `❌ --${name} must be a non-negative integer, got "${value}"`
+    );
+    process.exit(1);
+  }
+  return number;
+}
+
+// Parse a --since style option, exiting on invalid dates
+function parseTime(name: string, value: string | undefined) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`❌ --${name} must be an ISO 8601 time, got "${value}"`);
+    process.exit(1);
+  }
+  return date;
+}
+
+// An S2 store for the configured basin
+async function createReplayStore(): Promise<ReplayStore> {
+  let settings: Config;
+  try {
+    settings = loadConfig(process.env, ["S2_BASIN", "S2_ACCESS_TOKEN"]);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(`❌ Error: ${error.message}`);
+    console.error(formatConfigReport(error.entries).join("\n"));
+    process.exit(1);
+  }
+
+  // Imported here, so the offline test command does not need the S2 client
+  const { createS2Client } = await import("./s2-client.ts");
+  return createS2Client({
+    basin: settings.S2_BASIN,
+    accessToken: settings.S2_ACCESS_TOKEN,
+    endpoint: settings.S2_ENDPOINT || undefined,
+  });
+}
+
+// Re-append inbox or dead-letter records for transform_email to process again
+async function replayCommand(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "from-seq": { type: "string" },
+      "to-seq": { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      sender: { type: "string" },
+      subject: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+  const stream = positionals[0];
+  if (!stream || positionals.length > 1) {
+    console.error(
+      "Usage: bentotools replay <inbox/tool|errors/tool> [options]"
+    );
+    process.exit(1);
+  }
+
+  const options: ReplayOptions = {
+    fromSeq: parseCount("from-seq", values["from-seq"]),
+    toSeq: parseCount("to-seq", values["to-seq"]),
+    since: parseTime("since", values.since),
+    until: parseTime("until", values.until),
+    sender: values.sender,
+    subject: values.subject,
+    limit: parseCount("limit", values.limit) ?? DEFAULT_REPLAY_LIMIT,
+    dryRun: values["dry-run"],
+  };
+
+  const store = await createReplayStore();
+  console.log(`🔁 Reading ${stream}...`);
+  let result;
+  try {
+    result = await replay(store, stream, options);
+  } catch (error) {
+    if (!(error instanceof ReplayError)) {
+      throw error;
+    }
+    console.error(`❌ Error: ${error.message}, nothing was replayed`);
+    process.exit(1);
+  }
+
+  for (const candidate of result.candidates) {
+    console.log(`  ${formatCandidate(candidate)}`);
+  }
+  if (result.invalid.length > 0) {
+    console.log(
+      `⚠ Skipped ${
+        result.invalid.length
+      } record(s) without an email: #${result.invalid.join(", #")}`
+    );
+  }
+
+  const count = result.candidates.length;
+  if (!result.replayed) {
+    console.log(
+      `📋 Dry run: ${count} record(s) would be replayed${
+        count > options.limit!
+          ? ` (more than the limit of ${options.limit})`
+          : ""
+      }`
+    );
+  } else {
+    console.log(
+      `✅ Replayed ${count} record(s) from ${stream} to ${
+        result.candidates[0]?.target ?? "inbox"
+      }`
+    );
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "test":
+      await testCommand(args);
+      break;
+    case "replay":
+      await replayCommand(args);
+      break;
+    default:
+      console.error(
+        "Usage: bentotools test [path/to/index.ts] | replay <stream> [options]"
+      );
+      process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("❌ Command failed:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { compileFile, compileModule, withS2Endpoint } from "./compile.ts";
+import * as invalid from "./fixtures/compile/invalid.ts";
+import * as valid from "./fixtures/compile/valid.ts";
+
+describe("compileModule", () => {
+  test("classifies every kind of export", () => {
+    const result = compileModule(valid);
+
+    expect(Object.keys(result.tools)).toEqual(["lower", "upper"]);
+    expect(Object.keys(result.streams)).toEqual(["ingest", "send"]);
+    expect(result.streams.send as unknown).toBe(valid.send);
+    expect(result.tests).toEqual(valid.$TESTS);
+    expect(result.resources).toEqual(valid.$RESOURCES);
+    expect(result.metadata).toEqual(valid.$METADATA);
+    expect(result.failureReply).toEqual(valid.$FAILURE_REPLY);
+    expect(result.warnings).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+
+  test("reports malformed exports as errors and unknown ones as warnings", () => {
+    const result = compileModule(invalid);
+
+    expect(Object.keys(result.tools)).toEqual(["upper"]);
+    expect(result.streams).toEqual({});
+    expect(result.tests).toEqual([
+      { stream: "upper", input: "Hi", expected: "HI" },
+    ]);
+    expect(result.resources).toEqual({});
+    expect(result.metadata).toEqual({});
+    expect(result.failureReply).toBeNull();
+    expect(result.errors).toEqual([
+      {
+        exportName: "$FAILURE_REPLY",
+        message:
+          "must be an object with string html and/or text and an optional subject",
+      },
+      {
+        exportName: "$METADATA",
+        message: "must be an object",
+      },
+      {
+        exportName: "$RESOURCES",
+        message:
+          "cache_resources must be an array of resources with a string label",
+      },
+      {
+        exportName: "$RESOURCES",
+        message: expect.stringContaining('unknown resource kind "caches"'),
+      },
+      {
+        exportName: "$TESTS",
+        message: 'test 1 references unknown tool function "missing"',
+      },
+      {
+        exportName: "$TESTS",
+        message: "test 2 must have string stream, input and expected fields",
+      },
+      {
+        exportName: "no_output",
+        message: "stream definition is missing output",
+      },
+      {
+        exportName: "null_input",
+        message: "stream definition is missing input",
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      { exportName: "$UNKNOWN", message: "unknown special export, ignored" },
+      {
+        exportName: "BASE_URL",
+        message: "not a function or stream definition, skipped",
+      },
+    ]);
+  });
+
+  test("requires $TESTS to be an array", () => {
+    const result = compileModule({ $TESTS: { stream: "x" } });
+    expect(result.errors).toEqual([
+      { exportName: "$TESTS", message: "must be an array" },
+    ]);
+  });
+});
+
+describe("compileFile", () => {
+  test("imports a module with relative imports in place", async () => {
+    const result = await compileFile(
+      `${import.meta.dir}/fixtures/tree/index.ts`
+    );
+
+    expect(Object.keys(result.tools)).toEqual(["shout"]);
+    expect(Object.keys(result.streams)).toEqual(["outbox"]);
+    expect(result.errors).toEqual([]);
+  });
+});
+
+describe("withS2Endpoint", () => {
+  test("sets the endpoint of every s2 input and output", () => {
+    const streams = {
+      transform: {
+        input: { s2: { basin: "b", streams: "inbox/", auth_token: "t" } },
+        output: {
+          switch: {
+            cases: [
+              {
+                output: {
+                  s2: { basin: "b", stream: "outbox", auth_token: "t" },
+                },
+              },
+              { output: { http_client: { url: "https://example.com" } } },
+            ],
+          },
+        },
+      },
+      pinned: {
+        input: {
+          s2: { basin: "b", streams: "x", auth_token: "t", endpoint: "e" },
+        },
+        output: { sync_response: {} },
+      },
+    };
+    const endpoint = "http://localhost:4196";
+    const result = withS2Endpoint(streams, endpoint);
+
+    expect(result.transform).toEqual({
+      input: { s2: { ...streams.transform.input.s2, endpoint } },
+      output: {
+        switch: {
+          cases: [
+            {
+              output: {
+                s2: { basin: "b", stream: "outbox", auth_token: "t", endpoint },
+              },
+            },
+            { output: { http_client: { url: "https://example.com" } } },
+          ],
+        },
+      },
+    });
+    expect(result.pinned).toEqual(streams.pinned);
+    expect(streams.transform.input.s2).not.toHaveProperty("endpoint");
+  });
+});
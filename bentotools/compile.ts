@@ -0,0 +1,292 @@
+/**
+ * Tools Module Compilation
+ *
+ * Classifies the exports of a tools module (index.ts) into what bento-sync
+ * deploys. Used by compiler.ts, sync.ts and the CLI so they all agree on the
+ * rules:
+ * - functions are tool functions, called by the transform_email stream
+ * - objects with both `input` and `output` are Bento stream definitions
+ * - $TESTS is the array of test cases ({ stream, input, expected })
+ * - $RESOURCES declares Bento resources (cache_resources, ...), shaped like
+ *   resources.yaml
+ * - $METADATA is free-form information about the tools module
+ * - $FAILURE_REPLY is the reply template sent when a tool fails (see
+ *   runtime.ts), no reply is sent without it
+ * - `default` and exports starting with "_" are ignored
+ *
+ * Anything else is skipped with a warning. Malformed tests, resources,
+ * metadata or stream definitions are errors, so callers can refuse to deploy.
+ */
+
+import type { BentoStreamDefinition, ToolFailureReply } from "bentotools";
+import type { TestCase } from "./testing.ts";
+import type { ToolFunction } from "./runtime.ts";
+
+// A stream definition as deployed to Bento's streams API
+export type BentoStreamConfig = BentoStreamDefinition;
+
+export interface BentoResource {
+  label: string;
+  [component: string]: unknown;
+}
+
+export const RESOURCE_KINDS = [
+  "cache_resources",
+  "input_resources",
+  "output_resources",
+  "processor_resources",
+  "rate_limit_resources",
+] as const;
+
+export type BentoResources = Partial<
+  Record<(typeof RESOURCE_KINDS)[number], BentoResource[]>
+>;
+
+// A problem with one export
+export interface CompileDiagnostic {
+  exportName: string;
+  message: string;
+}
+
+export interface CompileResult {
+  tools: Record<string, ToolFunction>;
+  streams: Record<string, BentoStreamConfig>;
+  tests: TestCase[];
+  resources: BentoResources;
+  metadata: Record<string, unknown>;
+  failureReply: ToolFailureReply | null;
+  warnings: CompileDiagnostic[];
+  errors: CompileDiagnostic[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Validate $TESTS, returning the valid test cases
+function compileTests(
+  value: unknown,
+  tools: Record<string, ToolFunction>,
+  errors: CompileDiagnostic[]
+): TestCase[] {
+  if (!Array.isArray(value)) {
+    errors.push({ exportName: "$TESTS", message: "must be an array" });
+    return [];
+  }
+
+  const tests: TestCase[] = [];
+  value.forEach((test, index) => {
+    const fields = ["stream", "input", "expected"] as const;
+    if (
+      !isPlainObject(test) ||
+      fields.some((field) => typeof test[field] !== "string")
+    ) {
+      errors.push({
+        exportName: "$TESTS",
+        message: `test ${index} must have string stream, input and expected fields`,
+      });
+      return;
+    }
+    if (!tools[test.stream as string]) {
+      errors.push({
+        exportName: "$TESTS",
+        message: `test ${index} references unknown tool function "${test.stream}"`,
+      });
+      return;
+    }
+    tests.push(test as unknown as TestCase);
+  });
+  return tests;
+}
+
+// Validate $RESOURCES
+function compileResources(
+  value: unknown,
+  errors: CompileDiagnostic[]
+): BentoResources {
+  if (!isPlainObject(value)) {
+    errors.push({ exportName: "$RESOURCES", message: "must be an object" });
+    return {};
+  }
+
+  const resources: BentoResources = {};
+  for (const [kind, list] of Object.entries(value)) {
+    if (!(RESOURCE_KINDS as readonly string[]).includes(kind)) {
+      errors.push({
+        exportName: "$RESOURCES",
+        message: `unknown resource kind "${kind}" (expected one of ${RESOURCE_KINDS.join(
+          ", "
+        )})`,
+      });
+      continue;
+    }
+    if (
+      !Array.isArray(list) ||
+      list.some((resource) => typeof resource?.label !== "string")
+    ) {
+      errors.push({
+        exportName: "$RESOURCES",
+        message: `${kind} must be an array of resources with a string label`,
+      });
+      continue;
+    }
+    resources[kind as keyof BentoResources] = list as BentoResource[];
+  }
+  return resources;
+}
+
+// Validate $FAILURE_REPLY
+function compileFailureReply(
+  value: unknown,
+  errors: CompileDiagnostic[]
+): ToolFailureReply | null {
+  const fields = ["subject", "html", "text"];
+  if (
+    !isPlainObject(value) ||
+    Object.entries(value).some(
+      ([key, field]) => !fields.includes(key) || typeof field !== "string"
+    ) ||
+    (value.html === undefined && value.text === undefined)
+  ) {
+    errors.push({
+      exportName: "$FAILURE_REPLY",
+      message:
+        "must be an object with string html and/or text and an optional subject",
+    });
+    return null;
+  }
+  return value as ToolFailureReply;
+}
+
+// Classify the exports of a tools module
+export function compileModule(exports: Record<string, unknown>): CompileResult {
+  const result: CompileResult = {
+    tools: {},
+    streams: {},
+    tests: [],
+    resources: {},
+    metadata: {},
+    failureReply: null,
+    warnings: [],
+    errors: [],
+  };
+
+  // Tools first, so test cases can be checked against them
+  for (const [key, value] of Object.entries(exports)) {
+    if (typeof value === "function" && !key.startsWith("_")) {
+      result.tools[key] = value as ToolFunction;
+    }
+  }
+
+  for (const [key, value] of Object.entries(exports)) {
+    // Skip default export and private exports
+    if (key === "default" || key.startsWith("_") || result.tools[key]) {
+      continue;
+    }
+
+    if (key === "$TESTS") {
+      result.tests = compileTests(value, result.tools, result.errors);
+    } else if (key === "$RESOURCES") {
+      result.resources = compileResources(value, result.errors);
+    } else if (key === "$METADATA") {
+      if (isPlainObject(value)) {
+        result.metadata = value;
+      } else {
+        result.errors.push({ exportName: key, message: "must be an object" });
+      }
+    } else if (key === "$FAILURE_REPLY") {
+      result.failureReply = compileFailureReply(value, result.errors);
+    } else if (key.startsWith("$")) {
+      result.warnings.push({
+        exportName: key,
+        message: "unknown special export, ignored",
+      });
+    } else if (
+      isPlainObject(value) &&
+      ("input" in value || "output" in value)
+    ) {
+      // Something that looks like a stream but is incomplete is a mistake,
+      // not an unrelated export
+      const missing = ["input", "output"].filter(
+        (field) => !value[field] || typeof value[field] !== "object"
+      );
+      if (missing.length > 0) {
+        result.errors.push({
+          exportName: key,
+          message: `stream definition is missing ${missing.join(" and ")}`,
+        });
+      } else {
+        result.streams[key] = value as unknown as BentoStreamConfig;
+      }
+    } else {
+      result.warnings.push({
+        exportName: key,
+        message: "not a function or stream definition, skipped",
+      });
+    }
+  }
+
+  return result;
+}
+
+// Point every s2 input and output at another S2 endpoint (S2_ENDPOINT, e.g. the
+// s2-local.ts stand-in), so Bento uses the same streams as sync.ts
+// An endpoint set in the stream definition itself is kept
+export function withS2Endpoint(
+  streams: Record<string, BentoStreamConfig>,
+  endpoint: string
+): Record<string, BentoStreamConfig> {
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        key === "s2" && isPlainObject(child)
+          ? { endpoint, ...child }
+          : visit(child),
+      ])
+    );
+  };
+  return Object.fromEntries(
+    Object.entries(streams).map(([name, config]) => [
+      name,
+      visit(config) as BentoStreamConfig,
+    ])
+  );
+}
+
+// Import a tools module file and classify its exports
+// The module is imported in place, so its relative imports resolve within the
+// tools tree it belongs to
+export async function compileFile(path: string): Promise<CompileResult> {
+  return compileModule(await import(path));
+}
+
+// Print what was found, followed by warnings and errors
+export function printCompileResult(result: CompileResult) {
+  for (const name of Object.keys(result.tools)) {
+    console.log(`✓ Found tool function: ${name}`);
+  }
+  for (const name of Object.keys(result.streams)) {
+    console.log(`✓ Found stream definition: ${name}`);
+  }
+  if (result.tests.length > 0) {
+    console.log(`✓ Found ${result.tests.length} test case(s)`);
+  }
+  for (const [kind, list] of Object.entries(result.resources)) {
+    console.log(`✓ Found ${list.length} ${kind.replace("_", " ")}`);
+  }
+  for (const warning of result.warnings) {
+    console.warn(
+      `⚠ Skipping export '${warning.exportName}': ${warning.message}`
+    );
+  }
+  for (const error of result.errors) {
+    console.error(`❌ Export '${error.exportName}': ${error.message}`);
+  }
+}
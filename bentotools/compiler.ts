@@ -3,142 +3,61 @@
  * TypeScript to Bento Streams Compiler
  *
  * This compiler processes the exports from index.ts and generates Bento stream configurations.
- * - If an export is a function (typeof function), it's a tool function and will be called via bun
- * - If an export is an object, it's treated as a Bento stream definition
+ * Exports are classified by compile.ts (tool functions, stream definitions,
+ * $TESTS, $RESOURCES, $METADATA), the same rules sync.ts uses.
+ *
+ * Usage:
+ *   bun compiler.ts                          Print all streams as JSON
+ *   bun compiler.ts --yaml [--out-dir DIR]   Write one <name>.yaml per stream
+ *                                            (default: /etc/bento/streams)
+ *
+ * YAML files keep ${VAR} references; Bento interpolates environment variables
+ * when it loads config files. ${VAR:-default} is written as Bento's
+ * ${VAR:default}, and $${...} escapes are refused, as Bento has no escape.
+ * ${TOOLS_DIR} is this directory, which script code imports the tools from.
  */
 
 // Import index.ts as a module (it's guaranteed to be a proper module)
 import * as module from "./index.ts";
-
-interface BentoStreamConfig {
-  input: any;
-  pipeline?: any;
-  output: any;
-}
-
-interface ToolFunction {
-  (email: any): string;
-}
-
-// Check if a value is a function
-function isFunction(value: any): value is ToolFunction {
-  return typeof value === "function";
-}
-
-// Process exports and generate stream configurations
+import {
+  compileModule,
+  printCompileResult,
+  type BentoStreamConfig,
+} from "./compile.ts";
+import { toBentoInterpolation } from "./variables.ts";
+import { toYAML } from "./yaml.ts";
+
+// Directory Bento loads stream config files from in streams mode
+const DEFAULT_STREAMS_DIR = "/etc/bento/streams";
+
+// Classify the exports of index.ts and keep its stream definitions
 function compileStreams(): Map<string, BentoStreamConfig> {
-  const streams = new Map<string, BentoStreamConfig>();
-
-  for (const [key, value] of Object.entries(module)) {
-    // Skip default export and non-stream exports
-    if (key === "default" || key.startsWith("_")) {
-      continue;
-    }
-
-    if (isFunction(value)) {
-      // This is a tool function - it will be called by transform_email stream
-      // Tool functions don't generate stream configs, they're used within streams
-      console.log(`✓ Found tool function: ${key}`);
-      continue;
-    }
-
-    // This is a stream definition
-    if (value && typeof value === "object" && value.input && value.output) {
-      streams.set(key, value as BentoStreamConfig);
-      console.log(`✓ Found stream definition: ${key}`);
-    } else {
-      console.warn(
-        `⚠ Skipping export '${key}': not a function or stream definition`
-      );
-    }
+  const result = compileModule(module);
+  printCompileResult(result);
+  if (result.errors.length > 0) {
+    throw new Error(`${result.errors.length} export(s) are invalid`);
   }
-
-  return streams;
+  return new Map(Object.entries(result.streams));
 }
 
 // Convert stream config to YAML
 function streamToYAML(streamName: string, config: BentoStreamConfig): string {
-  const yaml: string[] = [];
-
-  // Input
-  yaml.push("input:");
-  yaml.push(formatYAML(config.input, 2));
-
-  // Pipeline (if present)
-  if (config.pipeline) {
-    yaml.push("pipeline:");
-    yaml.push(formatYAML(config.pipeline, 2));
-  }
-
-  // Output
-  yaml.push("output:");
-  yaml.push(formatYAML(config.output, 2));
-
-  return yaml.join("\n");
+  const { input, pipeline, output } = config;
+  return toYAML(pipeline ? { input, pipeline, output } : { input, output });
 }
 
-// Format object as YAML with proper indentation
-function formatYAML(obj: any, indent: number = 0): string {
-  const spaces = " ".repeat(indent);
-  const lines: string[] = [];
-
-  if (Array.isArray(obj)) {
-    for (const item of obj) {
-      if (typeof item === "object" && item !== null) {
-        lines.push(`${spaces}-`);
-        lines.push(formatYAML(item, indent + 2));
-      } else {
-        lines.push(`${spaces}- ${formatValue(item)}`);
-      }
-    }
-  } else if (obj && typeof obj === "object") {
-    for (const [key, value] of Object.entries(obj)) {
-      if (value === null || value === undefined) {
-        continue;
-      }
-
-      if (Array.isArray(value)) {
-        lines.push(`${spaces}${key}:`);
-        for (const item of value) {
-          if (typeof item === "object" && item !== null) {
-            lines.push(`${spaces}  -`);
-            lines.push(formatYAML(item, indent + 4));
-          } else {
-            lines.push(`${spaces}  - ${formatValue(item)}`);
-          }
-        }
-      } else if (typeof value === "object" && value !== null) {
-        lines.push(`${spaces}${key}:`);
-        lines.push(formatYAML(value, indent + 2));
-      } else {
-        lines.push(`${spaces}${key}: ${formatValue(value)}`);
-      }
-    }
-  } else {
-    lines.push(`${spaces}${formatValue(obj)}`);
-  }
-
-  return lines.join("\n");
-}
-
-// Format a value for YAML
-function formatValue(value: any): string {
-  if (typeof value === "string") {
-    // Check if it needs quoting
-    if (
-      value.includes(":") ||
-      value.includes("#") ||
-      value.includes("|") ||
-      value.includes("$")
-    ) {
-      return JSON.stringify(value);
-    }
-    return value;
-  }
-  if (typeof value === "number" || typeof value === "boolean") {
-    return String(value);
+// Write one <name>.yaml per stream, as loaded by `bento streams <dir>`
+async function writeStreamFiles(
+  streams: Map<string, BentoStreamConfig>,
+  outDir: string
+): Promise<string[]> {
+  const files: string[] = [];
+  for (const [name, config] of streams.entries()) {
+    const file = `${outDir}/${name}.yaml`;
+    await Bun.write(file, streamToYAML(name, config));
+    files.push(file);
   }
-  return JSON.stringify(value);
+  return files;
 }
 
 // Main compilation function
@@ -157,6 +76,38 @@ async function main() {
 
     console.log(`\n📦 Generated ${streams.size} stream configuration(s)\n`);
 
+    if (process.argv.includes("--yaml")) {
+      const outDirIndex = process.argv.indexOf("--out-dir");
+      const outDir =
+        outDirIndex === -1
+          ? DEFAULT_STREAMS_DIR
+          : process.argv[outDirIndex + 1];
+      if (!outDir) {
+        console.error("❌ --out-dir requires a directory");
+        process.exit(1);
+      }
+      const { streams: translated, unsupported } = toBentoInterpolation(
+        Object.fromEntries(streams),
+        { TOOLS_DIR: import.meta.dir }
+      );
+      if (unsupported.length > 0) {
+        for (const entry of unsupported) {
+          console.error(
+            `❌ ${entry.stream}: ${entry.path}: ${entry.expression} cannot be written to a Bento config file (Bento has no escape for \${...})`
+          );
+        }
+        process.exit(1);
+      }
+      const files = await writeStreamFiles(
+        new Map(Object.entries(translated)),
+        outDir
+      );
+      for (const file of files) {
+        console.log(`✓ Wrote ${file}`);
+      }
+      return;
+    }
+
     // Output streams as JSON for Bento API consumption
     const streamsJSON: Record<string, BentoStreamConfig> = {};
     for (const [name, config] of streams.entries()) {
@@ -176,4 +127,4 @@ if (import.meta.main) {
   main();
 }
 
-export { compileStreams, streamToYAML };
+export { compileStreams, streamToYAML, writeStreamFiles };
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CONFIG_MANIFEST,
+  ConfigError,
+  formatConfigReport,
+  isSecretVariable,
+  loadConfig,
+  resolveConfig,
+  RUNTIME_SETTINGS,
+} from "./config.ts";
+
+const env = {
+  TOOLS_ROOT_GITHUB: "https://github.com/owner/repo",
+  BASE_DOMAIN: "Example.com",
+  S2_ACCESS_TOKEN: "s2-token",
+  RESEND_API_KEY: "re_key",
+  RESEND_WEBHOOK_SECRET: "whsec_secret",
+};
+
+describe("loadConfig", () => {
+  test("derives and defaults unset values", () => {
+    const config = loadConfig(env);
+    expect(config.S2_BASIN).toBe("example-com");
+    expect(config.BENTO_API_URL).toBe("http://localhost:4195");
+    expect(config.TEST_TIMEOUT_MS).toBe("60000");
+    expect(config.TEST_SENDER).toBe("");
+  });
+
+  test("prefers explicit values over derivations and defaults", () => {
+    const config = loadConfig({
+      ...env,
+      S2_BASIN: "custom",
+      BENTO_API_URL: "http://bento:4195",
+    });
+    expect(config.S2_BASIN).toBe("custom");
+    expect(config.BENTO_API_URL).toBe("http://bento:4195");
+  });
+
+  test("throws a ConfigError listing every missing required value", () => {
+    const { BASE_DOMAIN, RESEND_API_KEY, ...partial } = env;
+    expect(() => loadConfig(partial)).toThrow(
+      "Missing required configuration: BASE_DOMAIN, S2_BASIN, RESEND_API_KEY"
+    );
+    expect(() => loadConfig(partial)).toThrow(ConfigError);
+  });
+
+  test("requires only the needed values if given", () => {
+    const s2 = { S2_BASIN: "basin", S2_ACCESS_TOKEN: "s2-token" };
+    expect(
+      loadConfig(s2, ["S2_BASIN", "S2_ACCESS_TOKEN"]).S2_ACCESS_TOKEN
+    ).toBe("s2-token");
+    expect(() => loadConfig({}, ["S2_BASIN", "S2_ACCESS_TOKEN"])).toThrow(
+      "Missing required configuration: S2_BASIN, S2_ACCESS_TOKEN"
+    );
+  });
+
+  test("treats declared secrets and undeclared variables as secret", () => {
+    expect(isSecretVariable("S2_ACCESS_TOKEN")).toBe(true);
+    expect(isSecretVariable("MY_API_TOKEN")).toBe(true);
+    expect(isSecretVariable("BASE_DOMAIN")).toBe(false);
+  });
+});
+
+describe("formatConfigReport", () => {
+  test("masks secrets and marks missing values", () => {
+    const { RESEND_API_KEY, ...partial } = env;
+    const report = formatConfigReport(resolveConfig(partial)).join("\n");
+
+    expect(report).toContain("✓ S2_BASIN               example-com (derived)");
+    expect(report).toContain("✓ S2_ACCESS_TOKEN        ********");
+    expect(report).toContain("✗ RESEND_API_KEY         MISSING");
+    expect(report).toContain("- TEST_SENDER            not set");
+    expect(report).not.toContain("s2-token");
+    expect(report).not.toContain("whsec_secret");
+  });
+});
+
+describe("envvars", () => {
+  test("lists every variable of the manifest", async () => {
+    const text = await Bun.file(new URL("../envvars", import.meta.url)).text();
+    const listed = text.split("\n").filter((line) => line !== "");
+    for (const variable of [...CONFIG_MANIFEST, ...RUNTIME_SETTINGS]) {
+      expect(listed).toContain(variable.name);
+    }
+  });
+});
+
+describe("bento.service", () => {
+  test("sets every runtime setting", async () => {
+    const unit = await Bun.file(
+      new URL("../templates/systemd/bento.service", import.meta.url)
+    ).text();
+    for (const variable of RUNTIME_SETTINGS) {
+      expect(unit).toContain(
+        `Environment="${variable.name}=${variable.default}"`
+      );
+    }
+  });
+});
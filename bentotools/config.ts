@@ -0,0 +1,261 @@
+/**
+ * bento-sync Configuration
+ *
+ * Every variable the sync tooling reads is declared once in CONFIG_MANIFEST,
+ * with a description, whether it is required or secret, and how to fill it in
+ * when it is not set (a default or a derivation from other variables).
+ * loadConfig() resolves and validates all of them at startup and returns a
+ * single config object; nothing else should read these from process.env.
+ *
+ * The runtime modules Bento's script processors import (runtime.ts,
+ * attachments.ts, dedup.ts) read a few settings of their own from Bento's
+ * environment, not sync.ts's; they are declared in RUNTIME_SETTINGS and set in
+ * templates/systemd/bento.service.
+ *
+ * The top-level envvars file lists both (plus SERVER_IP for deploy.sh),
+ * config.test.ts checks that it and bento.service stay complete.
+ *
+ * Usage:
+ *   bun config.ts   Print the configuration report (secrets masked)
+ */
+
+import {
+  DEFAULT_ATTACHMENT_MAX_BYTES,
+  DEFAULT_RESEND_API_URL,
+} from "./attachments.ts";
+import {
+  DEFAULT_DEDUP_DB_PATH,
+  DEFAULT_DEDUP_RETENTION_DAYS,
+} from "./dedup.ts";
+import {
+  DEFAULT_OUTBOX_MAX_RECORD_BYTES,
+  DEFAULT_TOOL_TIMEOUT_MS,
+} from "./runtime.ts";
+import { DEFAULT_STATE_DIR } from "./state.ts";
+
+export interface ConfigVariable {
+  name: string;
+  description: string;
+  required?: boolean;
+  secret?: boolean;
+  default?: string;
+  // Derive a value from the variables declared before this one, if possible
+  derive?: (values: Record<string, string>) => string | undefined;
+}
+
+export const CONFIG_MANIFEST = [
+  {
+    name: "TOOLS_ROOT_GITHUB",
+    description:
+      "Tools root: https://github.com/owner/repo[/ref][/path], <git url>[#ref[:path]] or file:///path (unset: the working directory)",
+  },
+  {
+    name: "GITHUB_PAT",
+    description: "GitHub personal access token for private tools repositories",
+    secret: true,
+  },
+  {
+    name: "BASE_DOMAIN",
+    description: "Domain the tool inboxes receive email on",
+    required: true,
+  },
+  {
+    name: "S2_BASIN",
+    description: "S2 basin for the inbox and outbox streams",
+    required: true,
+    // S2 basin names must be lowercase letters, numbers, and hyphens only
+    derive: (values) => values.BASE_DOMAIN?.replace(/\./g, "-").toLowerCase(),
+  },
+  {
+    name: "S2_ACCESS_TOKEN",
+    description: "S2 access token",
+    required: true,
+    secret: true,
+  },
+  {
+    name: "S2_ENDPOINT",
+    description: "S2 API endpoint override, e.g. the s2-local.ts stand-in",
+  },
+  {
+    name: "RESEND_API_KEY",
+    description: "Resend API key for sending replies and reading attachments",
+    required: true,
+    secret: true,
+  },
+  {
+    name: "RESEND_WEBHOOK_SECRET",
+    description: "Signing secret of the Resend webhook (whsec_...)",
+    required: true,
+    secret: true,
+  },
+  {
+    name: "RESEND_API_URL",
+    description: "Resend API, e.g. the resend-local.ts stand-in",
+    default: DEFAULT_RESEND_API_URL,
+  },
+  {
+    name: "BENTO_API_URL",
+    description: "Bento HTTP API",
+    default: "http://localhost:4195",
+  },
+  {
+    name: "TEST_SENDER",
+    description: "Address test emails are sent from, required to run $TESTS",
+  },
+  {
+    name: "TEST_TIMEOUT_MS",
+    description: "How long to wait for the reply to a test email",
+    default: "60000",
+  },
+  {
+    name: "BENTO_SYNC_STATE_DIR",
+    description:
+      "Directory of the sync state, deployment history and fetched tools",
+    default: DEFAULT_STATE_DIR,
+  },
+] as const satisfies readonly ConfigVariable[];
+
+export type ConfigName = (typeof CONFIG_MANIFEST)[number]["name"];
+
+// Settings read inside Bento's script processors, from Bento's environment
+export const RUNTIME_SETTINGS: readonly ConfigVariable[] = [
+  {
+    name: "TOOL_TIMEOUT_MS",
+    description: "Timeout of a tool invocation, unless the tool sets timeoutMs",
+    default: String(DEFAULT_TOOL_TIMEOUT_MS),
+  },
+  {
+    name: "OUTBOX_MAX_RECORD_BYTES",
+    description:
+      "Size limit of outbox and errors records (the S2 record limit)",
+    default: String(DEFAULT_OUTBOX_MAX_RECORD_BYTES),
+  },
+  {
+    name: "ATTACHMENT_MAX_BYTES",
+    description: "Size limit of an inbound attachment a tool reads",
+    default: String(DEFAULT_ATTACHMENT_MAX_BYTES),
+  },
+  {
+    name: "DEDUP_DB_PATH",
+    description: "SQLite database of claimed idempotency keys",
+    default: DEFAULT_DEDUP_DB_PATH,
+  },
+  {
+    name: "DEDUP_RETENTION_DAYS",
+    description: "How long claimed idempotency keys are kept",
+    default: String(DEFAULT_DEDUP_RETENTION_DAYS),
+  },
+];
+
+// Resolved configuration, unset optional variables are empty strings
+export type Config = Readonly<Record<ConfigName, string>>;
+
+export interface ConfigEntry {
+  variable: ConfigVariable;
+  value: string;
+  source: "env" | "default" | "derived" | "unset";
+}
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly entries: ConfigEntry[],
+    missing: string[] = entries.filter(isMissing).map((e) => e.variable.name)
+  ) {
+    super(`Missing required configuration: ${missing.join(", ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function isMissing(entry: ConfigEntry): boolean {
+  return !!entry.variable.required && entry.source === "unset";
+}
+
+// Resolve every variable in the manifest, in order
+export function resolveConfig(
+  env: Record<string, string | undefined> = process.env,
+  manifest: readonly ConfigVariable[] = CONFIG_MANIFEST
+): ConfigEntry[] {
+  const values: Record<string, string> = {};
+  const entries: ConfigEntry[] = [];
+
+  for (const variable of manifest) {
+    let entry: ConfigEntry;
+    const derived = variable.derive?.(values);
+
+    if (env[variable.name]) {
+      entry = { variable, value: env[variable.name]!, source: "env" };
+    } else if (derived) {
+      entry = { variable, value: derived, source: "derived" };
+    } else if (variable.default !== undefined) {
+      entry = { variable, value: variable.default, source: "default" };
+    } else {
+      entry = { variable, value: "", source: "unset" };
+    }
+
+    values[variable.name] = entry.value;
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+// One line per variable, secrets masked
+export function formatConfigReport(entries: ConfigEntry[]): string[] {
+  const width = Math.max(...entries.map((e) => e.variable.name.length));
+  return entries.map((entry) => {
+    const name = entry.variable.name.padEnd(width);
+    if (entry.source === "unset") {
+      const marker = entry.variable.required ? "✗" : "-";
+      const status = entry.variable.required ? "MISSING" : "not set";
+      return `  ${marker} ${name}  ${status} (${entry.variable.description})`;
+    }
+    const value = entry.variable.secret ? "********" : entry.value;
+    const note = entry.source === "env" ? "" : ` (${entry.source})`;
+    return `  ✓ ${name}  ${value}${note}`;
+  });
+}
+
+// Whether the value of a variable is masked in output: the secrets declared
+// here, and every variable that is not declared, since stream definitions may
+// reference any environment variable
+export function isSecretVariable(name: string): boolean {
+  const variable: ConfigVariable | undefined = CONFIG_MANIFEST.find(
+    (entry) => entry.name === name
+  );
+  return !variable || !!variable.secret;
+}
+
+// Resolve and validate the configuration
+// Throws ConfigError (carrying the full report) if a required value is missing
+// Commands that only need some of the variables (e.g. the CLI's replay) pass
+// their names as `needed`, and only those are required
+export function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+  needed?: readonly ConfigName[]
+): Config {
+  const entries = resolveConfig(env);
+  const missing = entries
+    .filter(isMissing)
+    .map((entry) => entry.variable.name)
+    .filter((name) => !needed || needed.includes(name as ConfigName));
+  if (missing.length > 0) {
+    throw new ConfigError(entries, missing);
+  }
+  return Object.fromEntries(
+    entries.map((entry) => [entry.variable.name, entry.value])
+  ) as Config;
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  const entries = resolveConfig();
+  console.log("⚙️  bento-sync configuration:");
+  console.log(formatConfigReport(entries).join("\n"));
+  console.log("⚙️  Bento runtime settings (as set in this environment):");
+  console.log(
+    formatConfigReport(resolveConfig(process.env, RUNTIME_SETTINGS)).join("\n")
+  );
+  if (entries.some(isMissing)) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { idempotencyKey, openDedupStore, outboxKey } from "./dedup.ts";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "bento-dedup-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("idempotencyKey", () => {
+  test("uses the email id, or a hash of the email without one", () => {
+    expect(idempotencyKey({ id: "e1", subject: "Hi" })).toBe("e1");
+    const key = idempotencyKey({ subject: "Hi" });
+    expect(key).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(idempotencyKey({ subject: "Hi" })).toBe(key);
+  });
+
+  test("gives every replay a key of its own", () => {
+    const replay = {
+      stream: "errors/reverser",
+      seq_num: 3,
+      replayed_at: "2026-01-01T00:00:00.000Z",
+    };
+    expect(idempotencyKey({ id: "e1" }, replay)).toBe(
+      "e1:replay:errors/reverser:3:2026-01-01T00:00:00.000Z"
+    );
+    expect(idempotencyKey({ id: "e1" }, null)).toBe("e1");
+  });
+});
+
+describe("outboxKey", () => {
+  test("uses the key transform_email set, or a hash of the record", () => {
+    expect(outboxKey({ idempotency_key: "e1", subject: "Re: Hi" })).toBe("e1");
+    expect(outboxKey({ subject: "Re: Hi" })).toMatch(/^sha256:/);
+  });
+});
+
+describe("openDedupStore", () => {
+  test("claims every key once per stage", () => {
+    const store = openDedupStore(join(dir, "dedup.sqlite"));
+    expect(store.seen("transform_email", "e1")).toBe(false);
+    expect(store.claim("transform_email", "e1")).toBe(true);
+    expect(store.seen("transform_email", "e1")).toBe(true);
+    expect(store.claim("transform_email", "e1")).toBe(false);
+    expect(store.claim("send_email", "e1")).toBe(true);
+    store.close();
+  });
+
+  test("keeps claims across restarts", () => {
+    const path = join(dir, "state", "dedup.sqlite");
+    const first = openDedupStore(path);
+    first.claim("send_email", "e1");
+    first.close();
+
+    const second = openDedupStore(path);
+    expect(second.claim("send_email", "e1")).toBe(false);
+    second.close();
+  });
+
+  test("forgets claims older than the retention", () => {
+    const path = join(dir, "dedup.sqlite");
+    let time = Date.parse("2026-01-01T00:00:00.000Z");
+    const options = { retentionDays: 30, now: () => time };
+
+    const first = openDedupStore(path, options);
+    first.claim("send_email", "old");
+    time += 20 * 24 * 60 * 60 * 1000;
+    first.claim("send_email", "recent");
+    first.close();
+
+    time += 15 * 24 * 60 * 60 * 1000;
+    const second = openDedupStore(path, options);
+    expect(second.seen("send_email", "old")).toBe(false);
+    expect(second.seen("send_email", "recent")).toBe(true);
+    second.close();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Idempotent Processing
+ *
+ * S2 delivers records at least once, and the s2 inputs keep no durable read
+ * position (s2_inbox_cache and s2_outbox_cache are noop caches), so after a
+ * Bento restart transform_email and send_email can see records again that they
+ * already processed. Both therefore record an idempotency key per record in a
+ * local SQLite database and drop records whose key was claimed before:
+ * - transform_email uses the key of the inbound email (its Resend id) and puts
+ *   it on the outbox record
+ * - send_email uses that key again for the send, and passes it to Resend as
+ *   the Idempotency-Key header
+ *
+ * The stream scripts only check seen() before the work, and claim() the key
+ * after the side effect succeeded: a broker output (fan_out_sequential) runs
+ * the claim once the outbox write or the Resend POST went through. A crash or
+ * failed write in between means the record is processed again, so delivery
+ * stays at least once; Resend ignores a repeated POST with the same
+ * Idempotency-Key. A replayed payload gets a key of its own, so replaying an
+ * email always runs it again.
+ *
+ * Keys are kept for DEDUP_RETENTION_DAYS (default: 30), the database lives at
+ * DEDUP_DB_PATH (default: /var/lib/bento/dedup.sqlite).
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+export const DEFAULT_DEDUP_DB_PATH = "/var/lib/bento/dedup.sqlite";
+export const DEFAULT_DEDUP_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DedupStore {
+  // Whether a key was claimed for a stage
+  seen(stage: string, key: string): boolean;
+  // Claim a key for a stage, returning false if it was claimed before
+  claim(stage: string, key: string): boolean;
+  close(): void;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// The idempotency key of an inbound email: its Resend id (or a hash of the
+// email if it has none), plus the origin and time of a replay
+export function idempotencyKey(
+  data: Record<string, unknown>,
+  replay?: { stream: string; seq_num: number; replayed_at: string } | null
+): string {
+  const id =
+    typeof data.id === "string" && data.id !== ""
+      ? data.id
+      : `sha256:${sha256(JSON.stringify(data))}`;
+  return replay
+    ? `${id}:replay:${replay.stream}:${replay.seq_num}:${replay.replayed_at}`
+    : id;
+}
+
+// The idempotency key of an outbox record, as set by transform_email (or a
+// hash of the record, for records written before keys were added)
+export function outboxKey(record: Record<string, unknown>): string {
+  return typeof record.idempotency_key === "string"
+    ? record.idempotency_key
+    : `sha256:${sha256(JSON.stringify(record))}`;
+}
+
+// Open (or create) a dedup database, deleting keys older than the retention
+export function openDedupStore(
+  path: string = process.env.DEDUP_DB_PATH || DEFAULT_DEDUP_DB_PATH,
+  options: { retentionDays?: number; now?: () => number } = {}
+): DedupStore {
+  const now = options.now ?? Date.now;
+  const retentionDays =
+    options.retentionDays ??
+    Number(process.env.DEDUP_RETENTION_DAYS || DEFAULT_DEDUP_RETENTION_DAYS);
+
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path, { create: true });
+  // transform_email and send_email may use the database at the same time
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  db.exec(`CREATE TABLE IF NOT EXISTS processed (
+    stage TEXT NOT NULL,
+    key TEXT NOT NULL,
+    processed_at INTEGER NOT NULL,
+    PRIMARY KEY (stage, key)
+  )`);
+  db.query("DELETE FROM processed WHERE processed_at < ?").run(
+    now() - retentionDays * DAY_MS
+  );
+
+  const select = db.query(
+    "SELECT 1 FROM processed WHERE stage = ? AND key = ?"
+  );
+  const insert = db.query(
+    "INSERT OR IGNORE INTO processed (stage, key, processed_at) VALUES (?, ?, ?)"
+  );
+  return {
+    seen: (stage, key) => select.get(stage, key) !== null,
+    claim: (stage, key) => insert.run(stage, key, now()).changes > 0,
+    close: () => db.close(),
+  };
+}
+
+const shared = new Map<string, DedupStore>();
+
+// The dedup store the stream scripts use, opened once per database path
+export function getDedupStore(
+  path: string = process.env.DEDUP_DB_PATH || DEFAULT_DEDUP_DB_PATH
+): DedupStore {
+  let store = shared.get(path);
+  if (!store) {
+    store = openDedupStore(path);
+    shared.set(path, store);
+  }
+  return store;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+  diffConfigs,
+  formatChange,
+  maskSecrets,
+  withoutDefaults,
+} from "./diff.ts";
+
+describe("diffConfigs", () => {
+  test("reports nothing for equal configs", () => {
+    const config = { input: { s2: { streams: "outbox" } }, output: {} };
+    expect(diffConfigs(config, structuredClone(config))).toEqual([]);
+  });
+
+  test("reports added, removed and changed values with their paths", () => {
+    const before = {
+      input: { s2: { basin: "a", cache: "c" } },
+      pipeline: { processors: [{ bloblang: "x" }] },
+    };
+    const after = {
+      input: { s2: { basin: "b" } },
+      pipeline: { processors: [{ bloblang: "x" }, { bloblang: "y" }] },
+    };
+    expect(diffConfigs(before, after)).toEqual([
+      { path: "input.s2.basin", kind: "changed", before: "a", after: "b" },
+      { path: "input.s2.cache", kind: "removed", before: "c" },
+      {
+        path: "pipeline.processors[1]",
+        kind: "added",
+        after: { bloblang: "y" },
+      },
+    ]);
+  });
+});
+
+describe("withoutDefaults", () => {
+  test("drops the fields Bento filled in with defaults", () => {
+    const compiled = {
+      input: { s2: { basin: "b", streams: "outbox" } },
+      pipeline: { processors: [{ bloblang: "x" }] },
+    };
+    const live = {
+      input: {
+        label: "",
+        s2: { basin: "b", streams: "outbox", batching: { count: 0 } },
+      },
+      buffer: { none: {} },
+      pipeline: { threads: -1, processors: [{ label: "", bloblang: "y" }] },
+    };
+    expect(diffConfigs(withoutDefaults(live, compiled), compiled)).toEqual([
+      {
+        path: "pipeline.processors[0].bloblang",
+        kind: "changed",
+        before: "y",
+        after: "x",
+      },
+    ]);
+  });
+});
+
+describe("secret masking", () => {
+  test("masks secret keys and known secret values", () => {
+    expect(
+      maskSecrets(
+        {
+          auth_token: "tok",
+          headers: { Authorization: "Bearer re_123" },
+          code: 'verify("whsec_abc")',
+        },
+        ["whsec_abc"]
+      )
+    ).toEqual({
+      auth_token: "***",
+      headers: { Authorization: "***" },
+      code: 'verify("***")',
+    });
+  });
+
+  test("never prints secret values in formatted changes", () => {
+    const [change] = diffConfigs(
+      { output: { http_client: { headers: { Authorization: "Bearer old" } } } },
+      { output: { http_client: { headers: { Authorization: "Bearer new" } } } }
+    );
+    expect(formatChange(change!, [])).toEqual([
+      "~ output.http_client.headers.Authorization: (secret changed)",
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Structural Diff for Stream Configurations
+ *
+ * Compares two stream configs and reports every added, removed or changed
+ * value with its path (e.g. pipeline.processors[0].bloblang).
+ * Used by sync.ts --dry-run to preview what a sync would change.
+ */
+
+export interface ConfigChange {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+// Keys whose values are always masked, whatever they contain
+const SECRET_KEY_PATTERN = /token|secret|password|authorization|api_key/i;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+// Compute the list of changes between two values
+export function diffConfigs(
+  before: unknown,
+  after: unknown,
+  path: string = ""
+): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ConfigChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const childPath = joinPath(path, key);
+      if (!(key in after)) {
+        changes.push({ path: childPath, kind: "removed", before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, kind: "added", after: after[key] });
+      } else {
+        changes.push(...diffConfigs(before[key], after[key], childPath));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ConfigChange[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = joinPath(path, i);
+      if (i >= after.length) {
+        changes.push({ path: childPath, kind: "removed", before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: childPath, kind: "added", after: after[i] });
+      } else {
+        changes.push(...diffConfigs(before[i], after[i], childPath));
+      }
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, kind: "changed", before, after }];
+}
+
+// Reduce a live config, as Bento's API returns it, to the fields the compiled
+// config sets: Bento fills in every omitted field with its default, which
+// would otherwise show up as a removal in every diff
+export function withoutDefaults(live: unknown, compiled: unknown): unknown {
+  if (isPlainObject(live) && isPlainObject(compiled)) {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(live)) {
+      if (key in compiled) {
+        result[key] = withoutDefaults(live[key], compiled[key]);
+      }
+    }
+    return result;
+  }
+  if (Array.isArray(live) && Array.isArray(compiled)) {
+    return live.map((item, i) =>
+      i < compiled.length ? withoutDefaults(item, compiled[i]) : item
+    );
+  }
+  return live;
+}
+
+// Replace secret values with "***"
+// Values under secret-looking keys are masked entirely, and any occurrence of a
+// known secret value inside other strings (e.g. script code) is masked too
+export function maskSecrets(
+  value: unknown,
+  secrets: string[],
+  key: string = ""
+): unknown {
+  if (typeof value === "string") {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      return "***";
+    }
+    let result = value;
+    for (const secret of secrets) {
+      if (secret) {
+        result = result.split(secret).join("***");
+      }
+    }
+    return result;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => maskSecrets(item, secrets, key));
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [childKey, childValue] of Object.entries(value)) {
+      result[childKey] = maskSecrets(childValue, secrets, childKey);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+// Line-based diff of two multi-line strings (longest common subsequence)
+function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+  return lines;
+}
+
+// Readable diff of an expected and an actual text, for test failures
+export function diffText(expected: string, actual: string): string[] {
+  return diffLines(expected, actual);
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? "undefined";
+}
+
+// Format a change as human-readable lines
+// Secrets are masked by the key the change is located at and by known values
+export function formatChange(
+  change: ConfigChange,
+  secrets: string[]
+): string[] {
+  const key = change.path.split(/[.[]/).pop() || "";
+  const before = maskSecrets(change.before, secrets, key);
+  const after = maskSecrets(change.after, secrets, key);
+
+  switch (change.kind) {
+    case "added":
+      return [`+ ${change.path}: ${formatValue(after)}`];
+    case "removed":
+      return [`- ${change.path}: ${formatValue(before)}`];
+    case "changed":
+      if (before === "***" && after === "***") {
+        return [`~ ${change.path}: (secret changed)`];
+      }
+      if (
+        typeof before === "string" &&
+        typeof after === "string" &&
+        (before.includes("\n") || after.includes("\n"))
+      ) {
+        return [
+          `~ ${change.path}:`,
+          ...diffLines(before, after).map((line) => `    ${line}`),
+        ];
+      }
+      return [
+        `~ ${change.path}: ${formatValue(before)} → ${formatValue(after)}`,
+      ];
+  }
+}
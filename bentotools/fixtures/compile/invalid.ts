@@ -0,0 +1,31 @@
+// A tools module with one mistake per kind of export
+
+export const upper = (email: { text?: string }) => email.text!.toUpperCase();
+
+export const $TESTS = [
+  { stream: "upper", input: "Hi", expected: "HI" },
+  { stream: "missing", input: "Hi", expected: "hi" },
+  { stream: "upper", input: 1 },
+];
+
+export const $RESOURCES = {
+  cache_resources: [{ noop: {} }],
+  caches: [],
+};
+
+export const $METADATA = "not an object";
+
+export const $FAILURE_REPLY = { subject: "No body" };
+
+export const $UNKNOWN = 1;
+
+export const no_output = {
+  input: { s2: { streams: "outbox" } },
+};
+
+export const null_input = {
+  input: null,
+  output: { drop: {} },
+};
+
+export const BASE_URL = "https://example.com";
@@ -0,0 +1,40 @@
+// A tools module using every kind of export compile.ts recognizes
+
+export const upper = (email: { text?: string }) => email.text!.toUpperCase();
+
+export const lower = (email: { text?: string }) => email.text!.toLowerCase();
+
+export const $TESTS = [
+  { stream: "upper", input: "Hi", expected: "HI" },
+  { stream: "lower", input: "Hi", expected: "hi" },
+];
+
+export const $RESOURCES = {
+  cache_resources: [{ label: "s2_inbox_cache", noop: {} }],
+};
+
+export const $METADATA = {
+  description: "Case conversion tools",
+};
+
+export const $FAILURE_REPLY = {
+  subject: "Sorry, {{tool}} failed",
+  text: "We could not process your email.",
+};
+
+export const ingest = {
+  input: { http_server: { path: "/webhooks/resend" } },
+  output: { s2: { stream: "inbox/upper" } },
+};
+
+export const send = {
+  input: { s2: { streams: "outbox" } },
+  pipeline: { processors: [{ bloblang: "root = this" }] },
+  output: { drop: {} },
+};
+
+// Private helpers are ignored
+export const _helper = () => "ignored";
+export const _config = { input: {} };
+
+export default { ignored: true };
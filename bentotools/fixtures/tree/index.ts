@@ -0,0 +1,10 @@
+// A tools root split across files
+import { shout } from "./tools/shout.ts";
+import config from "./lib/config.json";
+
+export { shout };
+
+export const outbox = {
+  input: { s2: { streams: config.stream } },
+  output: { drop: {} },
+};
@@ -0,0 +1,3 @@
+import { EOL } from "node:os";
+
+export const exclaim = (text: string) => `${text}!${EOL.trim()}`;
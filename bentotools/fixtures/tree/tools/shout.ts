@@ -0,0 +1,4 @@
+import { exclaim } from "../lib/format";
+
+export const shout = (email: { text?: string }) =>
+  exclaim(email.text!.toUpperCase());
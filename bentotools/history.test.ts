@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { BentoStreamConfig } from "./compile.ts";
+import {
+  formatRevision,
+  HISTORY_LIMIT,
+  listRevisions,
+  loadRevision,
+  saveRevision,
+} from "./history.ts";
+import { substituteStreams } from "./variables.ts";
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+const TOOLS = { commit: COMMIT, toolsDir: "/var/lib/bento-sync/sources/x" };
+
+function streams(basin: string): Record<string, BentoStreamConfig> {
+  return {
+    transform_email: {
+      input: { s2: { basin, auth_token: "${S2_ACCESS_TOKEN}", streams: "a" } },
+      pipeline: {
+        processors: [
+          { bloblang: 'root = this\nmeta id = "${! meta("id") }"' },
+          {
+            script: {
+              language: "javascript",
+              code: 'await import("${TOOLS_DIR}/runtime.ts");\n`$${x}`;',
+            },
+          },
+        ],
+      },
+      output: { sync_response: {} },
+    },
+  };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "bento-history-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("saveRevision", () => {
+  test("numbers revisions and skips repeats", async () => {
+    const first = await saveRevision(dir, streams("a"), "hash-a", TOOLS);
+    expect(first.revision).toBe(1);
+    expect(await saveRevision(dir, streams("a"), "hash-a", TOOLS)).toEqual(
+      first
+    );
+
+    const second = await saveRevision(dir, streams("b"), "hash-b", TOOLS, 1);
+    expect(second).toMatchObject({
+      revision: 2,
+      commit: COMMIT,
+      toolsDir: TOOLS.toolsDir,
+      hash: "hash-b",
+      rollbackOf: 1,
+    });
+    expect(await loadRevision(dir, 2)).toEqual(second);
+    expect(await loadRevision(dir, 3)).toBeNull();
+    expect((await listRevisions(dir)).map((r) => r.revision)).toEqual([1, 2]);
+  });
+
+  test("keeps variable references for substitution at rollback", async () => {
+    await saveRevision(dir, streams("a"), "hash-a", TOOLS);
+    const saved = await loadRevision(dir, 1);
+    expect(saved!.streams).toEqual(streams("a"));
+
+    const vars = { S2_ACCESS_TOKEN: "s2-token", TOOLS_DIR: TOOLS.toolsDir };
+    const { unresolved } = substituteStreams(saved!.streams, vars);
+    expect(unresolved).toEqual([]);
+    const file = await Bun.file(join(dir, "history", "1.json")).text();
+    expect(file).not.toContain("s2-token");
+  });
+
+  test(`keeps the last ${HISTORY_LIMIT} revisions`, async () => {
+    for (let i = 0; i < HISTORY_LIMIT + 2; i++) {
+      await saveRevision(dir, streams(`basin-${i}`), `hash-${i}`, TOOLS);
+    }
+    const revisions = await listRevisions(dir);
+    expect(revisions).toHaveLength(HISTORY_LIMIT);
+    expect(revisions[0]!.revision).toBe(3);
+    expect(await readdir(join(dir, "history"))).toHaveLength(HISTORY_LIMIT);
+  });
+});
+
+describe("formatRevision", () => {
+  test("shows the commit, stream count and notes", async () => {
+    const revision = await saveRevision(dir, streams("a"), "hash", TOOLS, 7);
+    expect(formatRevision(revision, true)).toBe(
+      `→ #1    ${revision.deployedAt}  0123456789ab  1 stream(s)  (rollback of #7, live)`
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Deployment History
+ *
+ * Every sync that applies all streams saves the compiled stream configs as a
+ * numbered revision in <state dir>/history/<revision>.json, together with the
+ * tools commit and directory, a timestamp and a hash of the deployed configs.
+ * `sync.ts rollback` re-applies one of them, so a bad index.ts can be undone
+ * without waiting for another commit.
+ *
+ * Variable values never reach the history files: the configs are saved before
+ * substitution, with their ${VAR} references, and a rollback substitutes the
+ * current values in with substituteStreams.
+ */
+
+import { readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { BentoStreamConfig } from "./compile.ts";
+
+export interface Revision {
+  revision: number;
+  // Tools commit the streams were compiled from
+  commit: string;
+  // ISO timestamp of the deployment
+  deployedAt: string;
+  // Tools tree the script code imports from (TOOLS_DIR, see sync.ts)
+  toolsDir: string;
+  // Hash of all substituted stream configs (see hashConfig)
+  hash: string;
+  // Revision this one re-applied, if it was a rollback
+  rollbackOf?: number;
+  // Stream configs before substitution, with their ${VAR} references
+  streams: Record<string, BentoStreamConfig>;
+}
+
+// Number of revisions kept, older ones are deleted
+export const HISTORY_LIMIT = 50;
+
+function historyDir(stateDir: string): string {
+  return join(stateDir, "history");
+}
+
+function revisionFile(stateDir: string, revision: number): string {
+  return join(historyDir(stateDir), `${revision}.json`);
+}
+
+// Revision numbers in the history, oldest first
+async function revisionNumbers(stateDir: string): Promise<number[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(historyDir(stateDir));
+  } catch {
+    return [];
+  }
+  return entries
+    .map((entry) => entry.match(/^(\d+)\.json$/)?.[1])
+    .filter((entry) => entry !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+// Load a revision, or null if it is not in the history
+export async function loadRevision(
+  stateDir: string,
+  revision: number
+): Promise<Revision | null> {
+  const file = Bun.file(revisionFile(stateDir, revision));
+  if (!(await file.exists())) {
+    return null;
+  }
+  return (await file.json()) as Revision;
+}
+
+// All revisions in the history, oldest first
+export async function listRevisions(stateDir: string): Promise<Revision[]> {
+  const revisions: Revision[] = [];
+  for (const revision of await revisionNumbers(stateDir)) {
+    const entry = await loadRevision(stateDir, revision);
+    if (entry) {
+      revisions.push(entry);
+    }
+  }
+  return revisions;
+}
+
+// Save a set of applied streams as a new revision, given before substitution
+// and with the hash of the substituted configs that were applied
+// Nothing is saved if the hash is identical to the latest revision, so the
+// sync timer does not fill the history with repeats. Returns the latest
+// revision either way
+export async function saveRevision(
+  stateDir: string,
+  streams: Record<string, BentoStreamConfig>,
+  hash: string,
+  tools: { commit: string; toolsDir: string },
+  rollbackOf?: number
+): Promise<Revision> {
+  const numbers = await revisionNumbers(stateDir);
+  const latest = numbers.length > 0 ? numbers[numbers.length - 1]! : 0;
+
+  const previous = latest > 0 ? await loadRevision(stateDir, latest) : null;
+  if (previous && previous.hash === hash) {
+    return previous;
+  }
+
+  const revision: Revision = {
+    revision: latest + 1,
+    commit: tools.commit,
+    toolsDir: tools.toolsDir,
+    deployedAt: new Date().toISOString(),
+    hash,
+    ...(rollbackOf !== undefined ? { rollbackOf } : {}),
+    streams,
+  };
+  await Bun.write(
+    revisionFile(stateDir, revision.revision),
+    JSON.stringify(revision, null, 2) + "\n"
+  );
+
+  const expired = Math.max(0, numbers.length + 1 - HISTORY_LIMIT);
+  for (const old of numbers.slice(0, expired)) {
+    await rm(revisionFile(stateDir, old), { force: true });
+  }
+  return revision;
+}
+
+// One line per revision, e.g.
+// #3  2026-01-01T00:00:00.000Z  0123456789ab  4 stream(s)  (rollback of #1)
+export function formatRevision(revision: Revision, live: boolean): string {
+  const streams = Object.keys(revision.streams).length;
+  const notes = [
+    revision.rollbackOf !== undefined
+      ? `rollback of #${revision.rollbackOf}`
+      : "",
+    live ? "live" : "",
+  ].filter(Boolean);
+  return `${live ? "→" : " "} #${String(revision.revision).padEnd(4)} ${
+    revision.deployedAt
+  }  ${revision.commit.slice(0, 12).padEnd(12)}  ${streams} stream(s)${
+    notes.length > 0 ? `  (${notes.join(", ")})` : ""
+  }`;
+}
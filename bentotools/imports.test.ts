@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkImports, checkScriptImports, packageName } from "./imports.ts";
+
+const fixtures = `${import.meta.dir}/fixtures`;
+
+// A tools root with broken imports, written at test time so the type check
+// never sees it
+const BROKEN_INDEX = `import { pdf } from "./tools/pdf.ts";
+import { marked } from "marked";
+import { parse } from "@scope/parser/strict";
+import { outside } from "../tree/index.ts";
+import { defineStream } from "bentotools";
+
+export { pdf, marked, parse, outside, defineStream };
+`;
+
+let work: string;
+
+beforeAll(async () => {
+  work = await mkdtemp(join(tmpdir(), "bento-imports-"));
+  await Bun.write(join(work, "broken-tree", "index.ts"), BROKEN_INDEX);
+  await Bun.write(
+    join(work, "broken-tree", "package.json"),
+    JSON.stringify({ dependencies: { "@scope/parser": "^1.0.0" } })
+  );
+  await Bun.write(
+    join(work, "tree", "index.ts"),
+    "export const outside = 1;\n"
+  );
+});
+
+afterAll(async () => {
+  await rm(work, { recursive: true, force: true });
+});
+
+describe("checkImports", () => {
+  test("follows relative imports through the tree", async () => {
+    expect(await checkImports(`${fixtures}/tree`)).toEqual({
+      files: ["index.ts", "lib/config.json", "lib/format.ts", "tools/shout.ts"],
+      packages: [],
+      errors: [],
+    });
+  });
+
+  test("reports missing files, undeclared packages and escapes", async () => {
+    const graph = await checkImports(join(work, "broken-tree"));
+    expect(graph.packages).toEqual(["@scope/parser", "bentotools", "marked"]);
+    expect(graph.errors).toEqual([
+      'index.ts: cannot resolve "./tools/pdf.ts"',
+      'index.ts: package "marked" is not declared in package.json',
+      'index.ts: "../tree/index.ts" is outside the tools root',
+    ]);
+  });
+});
+
+describe("checkScriptImports", () => {
+  test("follows script code imports of files in the tree", async () => {
+    const code = [
+      `const { exclaim } = await import("${fixtures}/tree/lib/format.ts");`,
+      `const { missing } = await import("${fixtures}/tree/missing.ts");`,
+      `const { EOL } = await import("node:os");`,
+    ].join("\n");
+    const graph = await checkScriptImports(`${fixtures}/tree`, {
+      a: { pipeline: { processors: [{ script: { code } }] } },
+    });
+    expect(graph.files).toEqual(["lib/format.ts"]);
+    expect(graph.errors).toEqual([
+      `a: script code imports missing "${fixtures}/tree/missing.ts"`,
+    ]);
+  });
+});
+
+describe("packageName", () => {
+  test("strips subpaths", () => {
+    expect(packageName("lodash/fp")).toBe("lodash");
+    expect(packageName("@scope/pkg/sub/path")).toBe("@scope/pkg");
+    expect(packageName("marked")).toBe("marked");
+  });
+});
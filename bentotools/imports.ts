@@ -0,0 +1,194 @@
+/**
+ * Tools Import Check
+ *
+ * Walks the import graph of a tools tree starting at index.ts before it is
+ * compiled, so a missing file or undeclared package is reported up front with
+ * the importing file, instead of as an import failure halfway through a sync:
+ * - relative imports must resolve to a file inside the tools tree
+ * - package imports must be declared in the tools root's package.json
+ *   (node:/bun: built-ins and the bentotools package are always available)
+ *
+ * Bento's script processors import modules of the tree at runtime (e.g.
+ * ${TOOLS_DIR}/runtime.ts), which index.ts itself does not import, so the
+ * script code of the substituted streams is walked as well
+ * (checkScriptImports).
+ */
+
+import { builtinModules } from "node:module";
+import { dirname, join, relative } from "node:path";
+
+export interface ImportGraph {
+  // Files reachable from index.ts, relative to the tools root
+  files: string[];
+  // Packages imported anywhere in the tree
+  packages: string[];
+  errors: string[];
+}
+
+// Packages provided by the bento-sync installation itself
+const HOST_PACKAGES = ["bentotools"];
+
+// The package name of a bare import specifier
+// (lodash/fp → lodash, @scope/pkg/x → @scope/pkg)
+export function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0]!;
+}
+
+function isBuiltin(specifier: string): boolean {
+  return (
+    specifier.startsWith("node:") ||
+    specifier.startsWith("bun:") ||
+    specifier === "bun" ||
+    builtinModules.includes(specifier)
+  );
+}
+
+// Dependencies declared in the package.json of the tools root
+async function declaredPackages(root: string): Promise<Set<string>> {
+  const file = Bun.file(join(root, "package.json"));
+  if (!(await file.exists())) {
+    return new Set();
+  }
+  const pkg = (await file.json()) as Record<string, unknown>;
+  const names = ["dependencies", "devDependencies", "peerDependencies"]
+    .flatMap((field) => Object.keys((pkg[field] as object) ?? {}))
+    .concat(typeof pkg.name === "string" ? [pkg.name] : []);
+  return new Set(names);
+}
+
+// Walk the imports of the tools tree rooted at `root`
+export async function checkImports(
+  root: string,
+  entry: string = "index.ts"
+): Promise<ImportGraph> {
+  const transpiler = new Bun.Transpiler({ loader: "ts" });
+  const declared = await declaredPackages(root);
+  const files = new Set<string>();
+  const packages = new Set<string>();
+  const errors: string[] = [];
+
+  const queue = [join(root, entry)];
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    const name = relative(root, file);
+    if (files.has(name)) {
+      continue;
+    }
+    files.add(name);
+
+    // Data files (e.g. JSON) have no imports of their own
+    if (!/\.[cm]?[jt]sx?$/.test(file)) {
+      continue;
+    }
+
+    let imports: Array<{ path: string }>;
+    try {
+      imports = transpiler.scanImports(await Bun.file(file).text());
+    } catch (error) {
+      errors.push(`${name}: could not be parsed: ${error}`);
+      continue;
+    }
+
+    for (const { path: specifier } of imports) {
+      if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        let resolved: string;
+        try {
+          resolved = Bun.resolveSync(specifier, dirname(file));
+        } catch {
+          errors.push(`${name}: cannot resolve "${specifier}"`);
+          continue;
+        }
+        if (relative(root, resolved).startsWith("..")) {
+          errors.push(`${name}: "${specifier}" is outside the tools root`);
+          continue;
+        }
+        queue.push(resolved);
+      } else if (!isBuiltin(specifier)) {
+        const pkg = packageName(specifier);
+        packages.add(pkg);
+        if (!declared.has(pkg) && !HOST_PACKAGES.includes(pkg)) {
+          errors.push(
+            `${name}: package "${pkg}" is not declared in package.json`
+          );
+        }
+      }
+    }
+  }
+
+  return {
+    files: [...files].sort(),
+    packages: [...packages].sort(),
+    errors,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// The code of every script processor in a config
+function scriptCode(config: unknown): string[] {
+  if (Array.isArray(config)) {
+    return config.flatMap(scriptCode);
+  }
+  if (!isPlainObject(config)) {
+    return [];
+  }
+  const script = config.script;
+  const code =
+    isPlainObject(script) && typeof script.code === "string"
+      ? [script.code]
+      : [];
+  return code.concat(Object.values(config).flatMap(scriptCode));
+}
+
+// Walk the imports of the script code of substituted streams that load files
+// of the tools tree rooted at `root`
+export async function checkScriptImports(
+  root: string,
+  streams: Record<string, unknown>
+): Promise<ImportGraph> {
+  const transpiler = new Bun.Transpiler({ loader: "js" });
+  const entries = new Set<string>();
+  const errors: string[] = [];
+  for (const [stream, config] of Object.entries(streams)) {
+    for (const code of scriptCode(config)) {
+      let imports: Array<{ path: string }>;
+      try {
+        imports = transpiler.scanImports(code);
+      } catch (error) {
+        errors.push(`${stream}: script code could not be parsed: ${error}`);
+        continue;
+      }
+      for (const { path: specifier } of imports) {
+        if (
+          !specifier.startsWith("/") ||
+          relative(root, specifier).startsWith("..")
+        ) {
+          continue;
+        }
+        if (!(await Bun.file(specifier).exists())) {
+          errors.push(`${stream}: script code imports missing "${specifier}"`);
+          continue;
+        }
+        entries.add(relative(root, specifier));
+      }
+    }
+  }
+
+  const files = new Set<string>();
+  const packages = new Set<string>();
+  for (const entry of entries) {
+    const graph = await checkImports(root, entry);
+    graph.files.forEach((file) => files.add(file));
+    graph.packages.forEach((pkg) => packages.add(pkg));
+    errors.push(...graph.errors);
+  }
+
+  return {
+    files: [...files].sort(),
+    packages: [...packages].sort(),
+    errors,
+  };
+}
@@ -1,11 +1,29 @@
-import type { Email } from "bentotools";
+import {
+  bloblang,
+  defineStream,
+  httpClient,
+  httpServer,
+  s2Input,
+  s2Output,
+  script,
+  type Email,
+  type ToolFailureReply,
+} from "bentotools";
 
 // Tool functions - these are called by transform_email stream
-// Each function takes an Email and returns a transformed string
+// Each function takes an Email and returns a transformed string or a ToolResult
+// (see the bentotools package), optionally as a Promise
 export const reverser = (email: Email): string => {
   return email.text!.split("").reverse().join("");
 };
 
+// Reply sent to the sender when a tool fails; the failure itself is recorded in
+// the errors/<inbox> stream
+export const $FAILURE_REPLY: ToolFailureReply = {
+  subject: "Sorry, {{tool}} could not process your email",
+  text: 'Something went wrong while {{tool}} was processing "{{subject}}". The failure has been recorded, please try again later.',
+};
+
 export const $TESTS = [
   {
     stream: "reverser",
@@ -16,48 +34,77 @@ export const $TESTS = [
 
 // Bento stream definitions
 // These are exported as stream configurations that Bento will use directly
+// defineStream and the component helpers only add type checking, the exports
+// are plain objects
 
-export const ingest_email = {
-  input: {
-    http_server: {
-      path: "/webhooks/resend",
-      allowed_verbs: ["POST"],
-      timeout: "5s",
+export const ingest_email = defineStream({
+  input: httpServer({
+    path: "/webhooks/resend",
+    allowed_verbs: ["POST"],
+    timeout: "5s",
+    sync_response: {
+      status: '${! @webhook_status | "200" }',
     },
-  },
+  }),
   pipeline: {
     processors: [
-      {
-        bloblang: `# Bento http_server provides the body as the root content
-# Try to parse JSON if it's a string, otherwise use as-is
-# TODO: Add Svix signature verification once header access is confirmed
-root = if this.type() == "string" { this.parse_json() } else { this }`,
-      },
+      bloblang(`# Keep the raw body and Svix headers for signature verification
+# The signature covers the exact bytes Resend sent, so the body must not be re-encoded first
+root._raw_body = content().string()
+root._metadata = metadata()`),
+      script({
+        language: "javascript",
+        code: `
+// Import the Svix verifier from the tools tree sync.ts deployed
+const { svixHeaders, verifyWebhook } = await import("\${TOOLS_DIR}/svix.ts");
+
+try {
+  root._payload = verifyWebhook(
+    root._raw_body,
+    svixHeaders(root._metadata),
+    "\${RESEND_WEBHOOK_SECRET}"
+  );
+} catch (error) {
+  root._rejected = error instanceof Error ? error.message : String(error);
+}
+`,
+      }),
+      bloblang(`# Rejected webhooks are answered with 401 and never reach S2
+meta webhook_status = if this._rejected != null { "401" } else { "200" }
+root = if this._rejected != null { {"error": this._rejected} } else { this._payload }`),
     ],
   },
   output: {
-    s2: {
-      basin: "${S2_BASIN}",
-      stream: 'inbox/${!this.data.to[0].split("@")[0]}',
-      auth_token: "${S2_ACCESS_TOKEN}",
+    switch: {
+      cases: [
+        {
+          check: '@webhook_status == "401"',
+          output: {
+            sync_response: {},
+          },
+        },
+        {
+          output: s2Output({
+            basin: "${S2_BASIN}",
+            stream: 'inbox/${!this.data.to[0].split("@")[0]}',
+            auth_token: "${S2_ACCESS_TOKEN}",
+          }),
+        },
+      ],
     },
   },
-};
+});
 
-export const transform_email = {
-  input: {
-    s2: {
-      basin: "${S2_BASIN}",
-      streams: "inbox/",
-      auth_token: "${S2_ACCESS_TOKEN}",
-      cache: "s2_inbox_cache",
-    },
-  },
+export const transform_email = defineStream({
+  input: s2Input({
+    basin: "${S2_BASIN}",
+    streams: "inbox/",
+    auth_token: "${S2_ACCESS_TOKEN}",
+    cache: "s2_inbox_cache",
+  }),
   pipeline: {
     processors: [
-      {
-        bloblang: `# Extract relevant fields from Resend Payload
-let original_text = this.data.text | ""
+      bloblang(`# Extract routing fields from Resend Payload
 let sender = this.data.from
 let subject = this.data.subject
 let recipient_email = this.data.to[0] | ""
@@ -70,92 +117,212 @@ let sender_email = $inbox_name + "@" + $sender_domain
 # Automatically determine receiver (original sender)
 let receiver = $sender
 
-# Store email data for script processor
-root._email_data = {
-  "text": $original_text,
-  "html": this.data.html | "",
-  "from": $sender,
-  "to": this.data.to,
-  "subject": $subject
-}
+# Pass the full webhook email (id, cc, headers, attachments, ...) to the script processor
+root._email_data = this.data
 root._inbox_name = $inbox_name
 root._sender_email = $sender_email
 root._receiver = $receiver
-root._subject = $subject`,
-      },
-      {
-        script: {
-          language: "javascript",
-          code: `
-// Import tools from local index.ts (we're in /opt/bento-sync)
-const tools = await import("./index.ts");
-import type { Email } from "bentotools";
+root._subject = $subject
+root._replay = this.replay`),
+      script({
+        language: "javascript",
+        code: `
+// Import tools and the tool runtime from the tools tree sync.ts deployed
+const tools = await import("\${TOOLS_DIR}/index.ts");
+const {
+  getTool,
+  invokeTool,
+  buildEmail,
+  buildReply,
+  buildFailure,
+  buildFailureReply,
+  testToken,
+} = await import("\${TOOLS_DIR}/runtime.ts");
+const { createResendAttachmentFetcher } = await import("\${TOOLS_DIR}/attachments.ts");
+const { getDedupStore, idempotencyKey } = await import("\${TOOLS_DIR}/dedup.ts");
 
 const inboxName = root._inbox_name;
 const emailData = root._email_data;
+const context = {
+  inboxName,
+  senderEmail: root._sender_email,
+  receiver: root._receiver,
+  subject: root._subject,
+  testToken: testToken(emailData),
+};
 
-// Get the tool function that matches the inbox name
-const toolFunction = tools[inboxName];
+// S2 delivers at least once: emails already processed (same id, or the same
+// replay) are dropped instead of running the tool and replying again. The key
+// is claimed once the output wrote the results, see below
+const dedup = getDedupStore();
+const key = idempotencyKey(emailData, root._replay);
+root._key = key;
+root._duplicate = dedup.seen("transform_email", key);
 
-if (!toolFunction || typeof toolFunction !== "function") {
-  throw new Error("Tool function \\"" + inboxName + "\\" not found in index.ts");
-}
+if (!root._duplicate) {
+  try {
+    // Get the tool function that matches the inbox name
+    const toolFunction = getTool(tools, inboxName);
 
-// Construct Email object
-const email: Email = {
-  text: emailData.text || null,
-  html: emailData.html || null,
-  from: emailData.from,
-  to: emailData.to,
-  subject: emailData.subject,
-};
+    // Construct the Email object from the full webhook data
+    // Attachment contents are fetched from Resend only when a tool reads them
+    const email = buildEmail(emailData, {
+      fetchAttachment: createResendAttachmentFetcher({
+        apiKey: "\${RESEND_API_KEY}",
+        apiUrl: "\${RESEND_API_URL}",
+      }),
+    });
+
+    // Call the tool function (sync or async), bounded by its timeout
+    const output = await invokeTool(inboxName, toolFunction, email);
 
-// Call the tool function
-const transformed_text = toolFunction(email);
+    // Map the string or structured result into the Resend API payload
+    // (null if the tool asked for no reply)
+    root._reply = buildReply(output, context);
+  } catch (error) {
+    // Record the failure for the errors/<inbox> stream and tell the sender if
+    // index.ts exports a $FAILURE_REPLY template
+    root._failure = buildFailure(inboxName, emailData, error);
+    root._reply = buildFailureReply(tools.$FAILURE_REPLY, root._failure, context);
+  }
 
-// Set the transformed text
-root._transformed_text = transformed_text;
+  // Nothing is written for tools that asked for no reply, they are done
+  if (root._reply == null && root._failure == null) {
+    dedup.claim("transform_email", key);
+  }
+}
 `,
-        },
-      },
-      {
-        bloblang: `# Construct Resend API Payload with automatically determined emails
-root.from = root._inbox_name.capitalize() + " <" + root._sender_email + ">"
-root.to = [root._receiver]
-root.subject = "Re: " + root._subject
-root.html = "<p>Here is your transformed text:</p><blockquote>" + root._transformed_text + "</blockquote>"
-# Clean up temporary fields
-root = root.delete("_email_data").delete("_inbox_name").delete("_sender_email").delete("_receiver").delete("_subject").delete("_transformed_text")`,
-      },
+      }),
+      bloblang(`# Keep the reply and the failure record, the output routes each of them
+# Tools returning { noReply: true } and duplicates produce no outbox message
+root = if this._duplicate || (this._reply == null && this._failure == null) {
+  deleted()
+} else {
+  {"reply": this._reply, "failure": this._failure, "key": this._key}
+}`),
     ],
   },
   output: {
-    s2: {
-      basin: "${S2_BASIN}",
-      stream: "outbox",
-      auth_token: "${S2_ACCESS_TOKEN}",
+    broker: {
+      // The key is claimed only once the results are written; if a write
+      // fails, the email is processed again instead of its reply being lost
+      pattern: "fan_out_sequential",
+      outputs: [
+        {
+          switch: {
+            cases: [
+              {
+                // Failed invocations go to the errors/<inbox> dead-letter stream,
+                // and on to the outbox if there is a failure reply
+                check: "this.failure != null",
+                continue: true,
+                output: {
+                  ...s2Output({
+                    basin: "${S2_BASIN}",
+                    stream: "errors/${!this.tool}",
+                    auth_token: "${S2_ACCESS_TOKEN}",
+                  }),
+                  processors: [bloblang("root = this.failure")],
+                },
+              },
+              {
+                check: "this.reply != null",
+                output: {
+                  ...s2Output({
+                    basin: "${S2_BASIN}",
+                    stream: "outbox",
+                    auth_token: "${S2_ACCESS_TOKEN}",
+                  }),
+                  // send_email deduplicates on the key and passes it to Resend
+                  processors: [
+                    bloblang(
+                      'root = this.reply.assign({"idempotency_key": this.key})'
+                    ),
+                  ],
+                },
+              },
+            ],
+          },
+        },
+        {
+          drop: {},
+          processors: [
+            script({
+              language: "javascript",
+              code: `
+const { getDedupStore } = await import("\${TOOLS_DIR}/dedup.ts");
+getDedupStore().claim("transform_email", root.key);
+`,
+            }),
+          ],
+        },
+      ],
     },
   },
-};
+});
 
-export const send_email = {
-  input: {
-    s2: {
-      basin: "${S2_BASIN}",
-      streams: "outbox",
-      auth_token: "${S2_ACCESS_TOKEN}",
-      cache: "s2_outbox_cache",
-    },
+// The outbox payload is already shaped like Resend's /emails request (including
+// base64 attachments), so send_email posts it as-is, apart from moving its
+// idempotency key into the Idempotency-Key header
+export const send_email = defineStream({
+  input: s2Input({
+    basin: "${S2_BASIN}",
+    streams: "outbox",
+    auth_token: "${S2_ACCESS_TOKEN}",
+    cache: "s2_outbox_cache",
+  }),
+  pipeline: {
+    processors: [
+      script({
+        language: "javascript",
+        code: `
+// Drop replies that were already sent (S2 delivers at least once), the key
+// is claimed once Resend accepted the request, see below
+const { getDedupStore, outboxKey } = await import("\${TOOLS_DIR}/dedup.ts");
+
+root._key = outboxKey(root);
+root._duplicate = getDedupStore().seen("send_email", root._key);
+`,
+      }),
+      bloblang(`# Resend drops repeated requests with the same Idempotency-Key
+meta idempotency_key = this._key
+root = if this._duplicate {
+  deleted()
+} else {
+  this.without("idempotency_key", "_key", "_duplicate")
+}`),
+    ],
   },
   output: {
-    http_client: {
-      url: "https://api.resend.com/emails",
-      verb: "POST",
-      headers: {
-        Authorization: "Bearer ${RESEND_API_KEY}",
-        "Content-Type": "application/json",
-      },
-      retries: 3,
+    broker: {
+      // A reply whose POST failed is not claimed, so it is sent again when S2
+      // delivers it again
+      pattern: "fan_out_sequential",
+      outputs: [
+        httpClient({
+          url: "https://api.resend.com/emails",
+          verb: "POST",
+          headers: {
+            Authorization: "Bearer ${RESEND_API_KEY}",
+            "Content-Type": "application/json",
+            "Idempotency-Key": "${! @idempotency_key }",
+          },
+          retries: 3,
+        }),
+        {
+          drop: {},
+          processors: [
+            bloblang('root = {"key": @idempotency_key}'),
+            script({
+              language: "javascript",
+              code: `
+const { getDedupStore } = await import("\${TOOLS_DIR}/dedup.ts");
+getDedupStore().claim("send_email", root.key);
+`,
+            }),
+          ],
+        },
+      ],
     },
   },
-};
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findReplayCandidates,
+  formatCandidate,
+  parseSource,
+  replay,
+  ReplayError,
+  type ReplayStore,
+  type StoredRecord,
+} from "./replay.ts";
+import { buildFailure } from "./runtime.ts";
+
+const T0 = Date.parse("2026-01-01T00:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+function email(n: number, from: string = "alice@example.com") {
+  return {
+    id: `email-${n}`,
+    from,
+    to: ["reverser@example.com"],
+    subject: `Message ${n}`,
+    text: `text ${n}`,
+    created_at: new Date(T0 + n * HOUR).toISOString(),
+  };
+}
+
+// An in-memory S2 basin
+function fakeStore(streams: Record<string, unknown[]>) {
+  const records: Record<string, StoredRecord[]> = {};
+  for (const [name, bodies] of Object.entries(streams)) {
+    records[name] = bodies.map((body, seqNum) => ({
+      seqNum,
+      timestamp: T0 + seqNum * HOUR,
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }));
+  }
+  const store: ReplayStore & { records: typeof records } = {
+    records,
+    async tail(stream) {
+      return records[stream]?.length ?? 0;
+    },
+    async read(stream, seqNum, limit) {
+      return (records[stream] ?? []).slice(seqNum, seqNum + limit);
+    },
+    async append(stream, body) {
+      const list = (records[stream] ??= []);
+      list.push({ seqNum: list.length, timestamp: Date.now(), body });
+    },
+  };
+  return store;
+}
+
+const inbox = () =>
+  fakeStore({
+    "inbox/reverser": [
+      { type: "email.received", created_at: "", data: email(0) },
+      { type: "email.received", created_at: "", data: email(1, "bob@x.com") },
+      "not json",
+      { type: "email.received", created_at: "", data: email(3) },
+    ],
+  });
+
+describe("parseSource", () => {
+  test("accepts inbox and error streams only", () => {
+    expect(parseSource("errors/reverser")).toEqual({
+      kind: "errors",
+      tool: "reverser",
+    });
+    expect(() => parseSource("outbox")).toThrow(ReplayError);
+  });
+});
+
+describe("findReplayCandidates", () => {
+  test("filters by sequence number, time, sender and subject", async () => {
+    const store = inbox();
+    const seqNums = async (options: object) =>
+      (
+        await findReplayCandidates(store, "inbox/reverser", options)
+      ).candidates.map((c) => c.seqNum);
+
+    expect(await seqNums({})).toEqual([0, 1, 3]);
+    expect(await seqNums({ fromSeq: 1, toSeq: 2 })).toEqual([1]);
+    expect(
+      await seqNums({
+        since: new Date(T0 + HOUR),
+        until: new Date(T0 + 3 * HOUR),
+      })
+    ).toEqual([1]);
+    expect(await seqNums({ sender: "ALICE" })).toEqual([0, 3]);
+    expect(await seqNums({ subject: "message 3" })).toEqual([3]);
+  });
+
+  test("reports records without an email", async () => {
+    const { invalid } = await findReplayCandidates(inbox(), "inbox/reverser");
+    expect(invalid).toEqual([2]);
+  });
+});
+
+describe("replay", () => {
+  test("re-appends inbox records, marked with their origin", async () => {
+    const store = inbox();
+    const result = await replay(store, "inbox/reverser", { sender: "alice" });
+    expect(result.replayed).toBe(true);
+
+    const appended = store.records["inbox/reverser"]!.slice(4).map((r) =>
+      JSON.parse(r.body)
+    );
+    expect(appended).toHaveLength(2);
+    expect(appended[0]).toEqual({
+      type: "email.received",
+      created_at: email(0).created_at,
+      data: email(0),
+      replay: {
+        stream: "inbox/reverser",
+        seq_num: 0,
+        replayed_at: expect.any(String),
+      },
+    });
+  });
+
+  test("replays dead-letter records into the tool's inbox", async () => {
+    const failure = buildFailure("reverser", email(5), new Error("boom"));
+    const store = fakeStore({ "errors/reverser": [failure] });
+
+    const result = await replay(store, "errors/reverser");
+    expect(result.candidates[0]!.error).toBe("boom");
+    expect(formatCandidate(result.candidates[0]!)).toBe(
+      `#0     2026-01-01T00:00:00.000Z  alice@example.com  "Message 5"  (boom)`
+    );
+    const [record] = store.records["inbox/reverser"]!;
+    expect(JSON.parse(record!.body).data).toEqual(email(5));
+  });
+
+  test("lists without appending on dry runs", async () => {
+    const store = inbox();
+    const result = await replay(store, "inbox/reverser", {
+      dryRun: true,
+      limit: 1,
+    });
+    expect(result.replayed).toBe(false);
+    expect(result.candidates).toHaveLength(3);
+    expect(store.records["inbox/reverser"]).toHaveLength(4);
+  });
+
+  test("refuses to replay more records than the limit", async () => {
+    const store = inbox();
+    await expect(replay(store, "inbox/reverser", { limit: 2 })).rejects.toThrow(
+      "3 records match, more than the limit of 2"
+    );
+    expect(store.records["inbox/reverser"]).toHaveLength(4);
+  });
+});
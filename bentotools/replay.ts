@@ -0,0 +1,254 @@
+/**
+ * Replay of Inbox and Dead-Letter Records
+ *
+ * Re-runs emails through transform_email once a tool is fixed, by appending
+ * them to inbox/<tool> again. Records are read from either
+ * - inbox/<tool>: the webhook payloads ingest_email wrote, or
+ * - errors/<tool>: the ToolFailure records of failed invocations (see
+ *   runtime.ts), whose email is wrapped into a webhook payload again
+ *
+ * starting at a sequence number and/or within a time range, optionally
+ * filtered by sender or subject. Only the records that existed when the replay
+ * started are considered, so replaying inbox/<tool> into itself terminates.
+ *
+ * Every replayed payload carries a `replay` field naming the record it came
+ * from. The number of records replayed at once is capped (--limit): if more
+ * records match, nothing is appended, so a loose filter cannot send hundreds
+ * of replies.
+ */
+
+import type { Email, ResendWebhookPayload } from "bentotools";
+
+export const DEFAULT_REPLAY_LIMIT = 10;
+
+// Records are read in pages of this size
+const PAGE_SIZE = 100;
+
+export interface StoredRecord {
+  seqNum: number;
+  // Milliseconds since the epoch, when S2 received the record
+  timestamp: number;
+  body: string;
+}
+
+// The S2 operations a replay needs
+export interface ReplayStore {
+  // Sequence number the next appended record will get
+  tail(stream: string): Promise<number>;
+  read(stream: string, seqNum: number, limit: number): Promise<StoredRecord[]>;
+  append(stream: string, body: string): Promise<void>;
+}
+
+export interface ReplayOptions {
+  // First sequence number to read (default 0)
+  fromSeq?: number;
+  // Last sequence number to read, inclusive
+  toSeq?: number;
+  since?: Date;
+  until?: Date;
+  // Case-insensitive substrings of the sender and subject
+  sender?: string;
+  subject?: string;
+  // Maximum number of records to replay (default DEFAULT_REPLAY_LIMIT)
+  limit?: number;
+  dryRun?: boolean;
+}
+
+// A webhook payload as replayed, marked with the record it came from
+export interface ReplayPayload extends ResendWebhookPayload {
+  replay: { stream: string; seq_num: number; replayed_at: string };
+}
+
+export interface ReplayCandidate {
+  seqNum: number;
+  timestamp: number;
+  email: Email;
+  // Stream the email is appended to
+  target: string;
+  // Why the record ended up in an errors/<tool> stream
+  error?: string;
+}
+
+export interface ReplayResult {
+  candidates: ReplayCandidate[];
+  // Records that are not replayable (not JSON, or no email in them)
+  invalid: number[];
+  // True if the records were appended
+  replayed: boolean;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+// Parse a source stream name into its kind and tool
+export function parseSource(stream: string): {
+  kind: "inbox" | "errors";
+  tool: string;
+} {
+  const match = stream.match(/^(inbox|errors)\/(.+)$/);
+  if (!match) {
+    throw new ReplayError(
+      `Cannot replay "${stream}": expected inbox/<tool> or errors/<tool>`
+    );
+  }
+  return { kind: match[1] as "inbox" | "errors", tool: match[2]! };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEmail(value: unknown): value is Email {
+  return (
+    isPlainObject(value) &&
+    typeof value.from === "string" &&
+    Array.isArray(value.to)
+  );
+}
+
+// The email in a stored record and where to replay it, or null if the record
+// holds none
+export function toCandidate(
+  stream: string,
+  record: StoredRecord
+): ReplayCandidate | null {
+  const { kind, tool } = parseSource(stream);
+  let body: unknown;
+  try {
+    body = JSON.parse(record.body);
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(body)) {
+    return null;
+  }
+
+  // Failures (ToolFailure in runtime.ts) hold the email itself, inbox records
+  // hold the Resend webhook payload
+  const email = kind === "errors" ? body.email : body.data;
+  if (!isEmail(email)) {
+    return null;
+  }
+  const error =
+    kind === "errors" && isPlainObject(body.error) ? body.error : {};
+  return {
+    seqNum: record.seqNum,
+    timestamp: record.timestamp,
+    email,
+    target: `inbox/${tool}`,
+    ...(typeof error.message === "string" ? { error: error.message } : {}),
+  };
+}
+
+function matches(candidate: ReplayCandidate, options: ReplayOptions): boolean {
+  const contains = (text: string | undefined, part: string | undefined) =>
+    !part || (text ?? "").toLowerCase().includes(part.toLowerCase());
+  return (
+    (!options.since || candidate.timestamp >= options.since.getTime()) &&
+    (!options.until || candidate.timestamp < options.until.getTime()) &&
+    contains(candidate.email.from, options.sender) &&
+    contains(candidate.email.subject, options.subject)
+  );
+}
+
+// Read the matching records of a stream, up to its current tail
+export async function findReplayCandidates(
+  store: ReplayStore,
+  stream: string,
+  options: ReplayOptions = {}
+): Promise<{ candidates: ReplayCandidate[]; invalid: number[] }> {
+  parseSource(stream);
+  const tail = await store.tail(stream);
+  const end = Math.min(tail, (options.toSeq ?? Infinity) + 1);
+
+  const candidates: ReplayCandidate[] = [];
+  const invalid: number[] = [];
+  let seqNum = options.fromSeq ?? 0;
+  while (seqNum < end) {
+    const records = await store.read(
+      stream,
+      seqNum,
+      Math.min(PAGE_SIZE, end - seqNum)
+    );
+    if (records.length === 0) {
+      break;
+    }
+    for (const record of records) {
+      if (record.seqNum >= end) {
+        break;
+      }
+      const candidate = toCandidate(stream, record);
+      if (!candidate) {
+        invalid.push(record.seqNum);
+      } else if (matches(candidate, options)) {
+        candidates.push(candidate);
+      }
+    }
+    seqNum = records[records.length - 1]!.seqNum + 1;
+  }
+  return { candidates, invalid };
+}
+
+// Build the webhook payload appended for a candidate
+export function buildReplayPayload(
+  stream: string,
+  candidate: ReplayCandidate,
+  now: Date = new Date()
+): ReplayPayload {
+  return {
+    type: "email.received",
+    created_at: candidate.email.created_at,
+    data: candidate.email,
+    replay: {
+      stream,
+      seq_num: candidate.seqNum,
+      replayed_at: now.toISOString(),
+    },
+  };
+}
+
+// Replay the matching records of a stream
+// Throws ReplayError if more records match than the limit allows
+export async function replay(
+  store: ReplayStore,
+  stream: string,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const limit = options.limit ?? DEFAULT_REPLAY_LIMIT;
+  const { candidates, invalid } = await findReplayCandidates(
+    store,
+    stream,
+    options
+  );
+
+  if (options.dryRun) {
+    return { candidates, invalid, replayed: false };
+  }
+  if (candidates.length > limit) {
+    throw new ReplayError(
+      `${candidates.length} records match, more than the limit of ${limit}; narrow the filters or raise --limit`
+    );
+  }
+
+  for (const candidate of candidates) {
+    await store.append(
+      candidate.target,
+      JSON.stringify(buildReplayPayload(stream, candidate))
+    );
+  }
+  return { candidates, invalid, replayed: true };
+}
+
+// One line per candidate, e.g.
+// #12  2026-01-01T00:00:00.000Z  alice@example.com  "Hello"  (boom)
+export function formatCandidate(candidate: ReplayCandidate): string {
+  return `#${String(candidate.seqNum).padEnd(5)} ${new Date(
+    candidate.timestamp
+  ).toISOString()}  ${candidate.email.from}  ${JSON.stringify(
+    candidate.email.subject ?? ""
+  )}${candidate.error ? `  (${candidate.error})` : ""}`;
+}
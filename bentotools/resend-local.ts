@@ -0,0 +1,124 @@
+#!/usr/bin/env bun
+/**
+ * Local Resend Stand-in
+ *
+ * An in-memory server speaking the subset of the Resend API that the
+ * bentotools pipeline uses, for tests and local experiments:
+ * - GET /emails/receiving/{email_id}/attachments/{attachment_id}
+ *   (attachment metadata with a download_url served by this server)
+ *
+ * Point RESEND_API_URL at it (e.g. http://localhost:4197). Attachments are
+ * registered with addAttachment(), or over HTTP when run standalone:
+ *   curl --data-binary @data.csv -H "Content-Type: text/csv" \
+ *     "http://localhost:4197/_attachments/{email_id}/{attachment_id}?filename=data.csv"
+ *
+ * Usage:
+ *   bun resend-local.ts        Listen on RESEND_LOCAL_PORT (default 4197)
+ */
+
+interface StoredAttachment {
+  filename: string;
+  content_type: string;
+  content: Uint8Array;
+}
+
+export interface ResendLocal {
+  fetch: (request: Request) => Promise<Response>;
+  // Register the content of an inbound attachment
+  addAttachment(
+    emailId: string,
+    attachmentId: string,
+    attachment: StoredAttachment
+  ): void;
+}
+
+function error(message: string, status: number): Response {
+  return Response.json({ name: "error", message }, { status });
+}
+
+// Create the request handler and its in-memory state
+export function createResendLocal(): ResendLocal {
+  const attachments = new Map<string, StoredAttachment>();
+  const key = (emailId: string, attachmentId: string) =>
+    `${emailId}/${attachmentId}`;
+
+  return {
+    addAttachment(emailId, attachmentId, attachment) {
+      attachments.set(key(emailId, attachmentId), attachment);
+    },
+
+    async fetch(request) {
+      const url = new URL(request.url);
+
+      // Attachment metadata (requires an API key like the real API)
+      let match = url.pathname.match(
+        /^\/emails\/receiving\/([^/]+)\/attachments\/([^/]+)$/
+      );
+      if (match && request.method === "GET") {
+        if (!request.headers.get("authorization")?.startsWith("Bearer ")) {
+          return error("Missing API key", 401);
+        }
+        const [, emailId, attachmentId] = match;
+        const attachment = attachments.get(key(emailId!, attachmentId!));
+        if (!attachment) {
+          return error("Attachment not found", 404);
+        }
+        return Response.json({
+          object: "attachment",
+          id: attachmentId,
+          filename: attachment.filename,
+          content_type: attachment.content_type,
+          size: attachment.content.byteLength,
+          download_url: `${url.origin}/_downloads/${emailId}/${attachmentId}`,
+        });
+      }
+
+      // Attachment registration (not part of the Resend API)
+      match = url.pathname.match(/^\/_attachments\/([^/]+)\/([^/]+)$/);
+      if (match && request.method === "POST") {
+        const [, emailId, attachmentId] = match;
+        const filename = url.searchParams.get("filename") || attachmentId!;
+        const attachment: StoredAttachment = {
+          filename,
+          content_type:
+            request.headers.get("content-type") || "application/octet-stream",
+          content: new Uint8Array(await request.arrayBuffer()),
+        };
+        attachments.set(key(emailId!, attachmentId!), attachment);
+        return Response.json(
+          { id: attachmentId, filename, size: attachment.content.byteLength },
+          { status: 201 }
+        );
+      }
+
+      // Attachment download (signed URL in the real API, no auth needed)
+      match = url.pathname.match(/^\/_downloads\/([^/]+)\/([^/]+)$/);
+      if (match && request.method === "GET") {
+        const attachment = attachments.get(key(match[1]!, match[2]!));
+        if (!attachment) {
+          return error("Attachment not found", 404);
+        }
+        return new Response(attachment.content, {
+          headers: { "Content-Type": attachment.content_type },
+        });
+      }
+
+      return error("Not found", 404);
+    },
+  };
+}
+
+// Start the stand-in server
+export function startResendLocal(port: number = 4197) {
+  const resend = createResendLocal();
+  const server = Bun.serve({ port, fetch: resend.fetch });
+  return { server, resend };
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  const { server } = startResendLocal(
+    Number(process.env.RESEND_LOCAL_PORT || 4197)
+  );
+  console.log(`📮 Local Resend stand-in listening on ${server.url}`);
+}
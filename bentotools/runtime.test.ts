@@ -0,0 +1,294 @@
+import { describe, expect, test } from "bun:test";
+import type { ToolEmail } from "bentotools";
+import {
+  buildEmail,
+  buildFailure,
+  buildFailureReply,
+  buildReply,
+  getTool,
+  invokeTool,
+  outputText,
+  ReplyTooLargeError,
+  TEST_TOKEN_HEADER,
+  testToken,
+  ToolTimeoutError,
+  type ToolFunction,
+} from "./runtime.ts";
+
+const email = {
+  id: "e1",
+  from: "a@example.com",
+  to: ["tool@example.com"],
+  subject: "Hi",
+  text: "abc",
+  created_at: "2025-11-29T12:00:00.000Z",
+} as ToolEmail;
+
+describe("invokeTool", () => {
+  test("returns the result of a synchronous tool", async () => {
+    expect(await invokeTool("sync", (e) => e.text!.toUpperCase(), email)).toBe(
+      "ABC"
+    );
+  });
+
+  test("awaits the result of an asynchronous tool", async () => {
+    const tool: ToolFunction = async (e) => {
+      await Bun.sleep(1);
+      return e.text!.toUpperCase();
+    };
+    expect(await invokeTool("async", tool, email)).toBe("ABC");
+  });
+
+  test("fails with ToolTimeoutError when the tool exceeds its timeout", async () => {
+    const tool: ToolFunction = () => new Promise(() => {});
+    tool.timeoutMs = 10;
+    const result = invokeTool("slow", tool, email);
+    await expect(result).rejects.toBeInstanceOf(ToolTimeoutError);
+    await expect(result).rejects.toThrow(
+      'Tool function "slow" timed out after 10ms'
+    );
+  });
+
+  test("propagates errors thrown by the tool", async () => {
+    const tool: ToolFunction = () => {
+      throw new Error("boom");
+    };
+    await expect(invokeTool("broken", tool, email)).rejects.toThrow("boom");
+  });
+});
+
+test("getTool rejects exports that are not functions", () => {
+  expect(() => getTool({ $TESTS: [] }, "$TESTS")).toThrow(
+    'Tool function "$TESTS" not found in index.ts'
+  );
+});
+
+describe("buildReply", () => {
+  const context = {
+    inboxName: "reverser",
+    senderEmail: "reverser@example.com",
+    receiver: "Alice <alice@example.com>",
+    subject: "Hello",
+  };
+
+  test("wraps plain string results into the default reply", () => {
+    expect(buildReply("olleH", context)).toEqual({
+      from: "Reverser <reverser@example.com>",
+      to: ["Alice <alice@example.com>"],
+      subject: "Re: Hello",
+      html: "<p>Here is your transformed text:</p><blockquote>olleH</blockquote>",
+    });
+  });
+
+  test("maps structured results onto the Resend payload", () => {
+    expect(
+      buildReply(
+        {
+          subject: "Your report",
+          text: "plain",
+          html: "<b>rich</b>",
+          to: ["bob@example.com"],
+          cc: ["carol@example.com"],
+          reply_to: "support@example.com",
+        },
+        context
+      )
+    ).toEqual({
+      from: "Reverser <reverser@example.com>",
+      to: ["Alice <alice@example.com>", "bob@example.com"],
+      subject: "Your report",
+      text: "plain",
+      html: "<b>rich</b>",
+      cc: ["carol@example.com"],
+      reply_to: "support@example.com",
+    });
+  });
+
+  test("base64 encodes reply attachments", () => {
+    const reply = buildReply(
+      {
+        text: "see attached",
+        attachments: [
+          {
+            filename: "report.csv",
+            content: new TextEncoder().encode("a,b\n"),
+            content_type: "text/csv",
+          },
+          { filename: "note.txt", content: "aGk=" },
+        ],
+      },
+      context
+    );
+    expect(reply?.attachments).toEqual([
+      { filename: "report.csv", content: "YSxiCg==", content_type: "text/csv" },
+      { filename: "note.txt", content: "aGk=" },
+    ]);
+  });
+
+  test("rejects replies larger than an outbox record", () => {
+    const content = new Uint8Array(1024 * 1024);
+    expect(() =>
+      buildReply({ attachments: [{ filename: "big.bin", content }] }, context)
+    ).toThrow(ReplyTooLargeError);
+  });
+
+  test("returns null when the tool asks for no reply", () => {
+    expect(buildReply({ noReply: true }, context)).toBeNull();
+  });
+
+  test("carries the test token of $TESTS emails back", () => {
+    const token = testToken({ headers: { "x-bento-test": "bento-test-1" } });
+    expect(
+      buildReply({ subject: "Custom" }, { ...context, testToken: token })
+    ).toMatchObject({
+      subject: "Custom",
+      headers: { [TEST_TOKEN_HEADER]: "bento-test-1" },
+    });
+    expect(testToken({ headers: { subject: "Hi" } })).toBeUndefined();
+    expect(testToken({})).toBeUndefined();
+  });
+});
+
+test("outputText prefers text over html for structured results", () => {
+  expect(outputText("abc")).toBe("abc");
+  expect(outputText({ html: "<p>x</p>", text: "x" })).toBe("x");
+  expect(outputText({ html: "<p>x</p>" })).toBe("<p>x</p>");
+});
+
+describe("buildEmail", () => {
+  const payload = {
+    type: "email.received",
+    created_at: "2025-11-29T12:00:01.000Z",
+    data: {
+      id: "4ef9a417-02e9-4d39-ad75-9611e0fcc33c",
+      from: "Alice <alice@example.com>",
+      to: ["reverser@example.com"],
+      cc: ["carol@example.com"],
+      bcc: ["dave@example.com"],
+      reply_to: ["alice+replies@example.com"],
+      subject: "Hello",
+      html: "<p>Hello</p>",
+      text: "Hello",
+      created_at: "2025-11-29T12:00:00.000Z",
+      headers: { "message-id": "<abc@example.com>", received: ["a", "b"] },
+      attachments: [
+        {
+          filename: "data.csv",
+          content_type: "text/csv",
+          size: 12,
+          content_id: "cid-1",
+        },
+      ],
+      tags: [{ name: "category", value: "tools" }],
+    },
+  };
+
+  test("keeps every field of the webhook data", () => {
+    const email = buildEmail(structuredClone(payload.data));
+    expect(email as unknown).toEqual(payload.data);
+    expect(Object.keys(email).sort()).toEqual(Object.keys(payload.data).sort());
+  });
+
+  test("turns null optional fields into undefined", () => {
+    const email = buildEmail({ ...payload.data, text: null, cc: null });
+    expect(email.text).toBeUndefined();
+    expect("text" in email).toBe(false);
+    expect("cc" in email).toBe(false);
+    expect(email.id).toBe(payload.data.id);
+  });
+});
+
+describe("buildFailure", () => {
+  const now = new Date("2026-01-01T00:00:00.000Z");
+
+  test("records the email, error and tool", () => {
+    const error = new ToolTimeoutError("reverser", 10);
+    expect(buildFailure("reverser", { ...email }, error, now)).toEqual({
+      tool: "reverser",
+      error: {
+        name: "ToolTimeoutError",
+        message: 'Tool function "reverser" timed out after 10ms',
+        stack: error.stack,
+      },
+      email,
+      timestamp: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("cuts the email bodies of records larger than an outbox record", () => {
+    const html = "<p>x</p>".repeat(256 * 1024);
+    const failure = buildFailure(
+      "reverser",
+      { ...email, html },
+      new Error("boom"),
+      now
+    );
+    expect(Buffer.byteLength(JSON.stringify(failure))).toBeLessThanOrEqual(
+      1024 * 1024
+    );
+    expect(failure.truncated).toEqual(["email.html"]);
+    expect(failure.email.html).toEndWith("… [truncated]");
+    expect(failure.email.text).toBe("abc");
+    expect(failure.error.message).toBe("boom");
+  });
+
+  test("keeps only the email's headline fields if cutting is not enough", () => {
+    const to = Array.from({ length: 128 * 1024 }, (_, i) => `u${i}@x.com`);
+    const failure = buildFailure("reverser", { ...email, cc: to }, "boom", now);
+    expect(Buffer.byteLength(JSON.stringify(failure))).toBeLessThanOrEqual(
+      1024 * 1024
+    );
+    expect(failure.truncated).toEqual(["email.text", "error.message", "email"]);
+    expect(failure.email).toEqual({
+      id: "e1",
+      from: "a@example.com",
+      to: ["tool@example.com"],
+      subject: "Hi",
+      created_at: "2025-11-29T12:00:00.000Z",
+    });
+  });
+
+  test("accepts thrown values that are not errors", () => {
+    expect(buildFailure("reverser", {}, "boom", now).error).toEqual({
+      name: "Error",
+      message: "boom",
+    });
+  });
+});
+
+describe("buildFailureReply", () => {
+  const context = {
+    inboxName: "reverser",
+    senderEmail: "reverser@example.com",
+    receiver: "alice@example.com",
+    subject: "Hello",
+  };
+  const failure = buildFailure("reverser", {}, new Error("<bad> input"));
+
+  test("fills in the template", () => {
+    expect(
+      buildFailureReply(
+        {
+          subject: "Sorry, {{tool}} failed",
+          text: "{{subject}} from {{from}}: {{error}} {{unknown}}",
+          html: "<p>{{error}}</p>",
+        },
+        failure,
+        context
+      )
+    ).toEqual({
+      from: "Reverser <reverser@example.com>",
+      to: ["alice@example.com"],
+      subject: "Sorry, reverser failed",
+      text: "Hello from alice@example.com: <bad> input {{unknown}}",
+      html: "<p>&lt;bad&gt; input</p>",
+    });
+  });
+
+  test("defaults the subject and sends nothing without a template", () => {
+    expect(
+      buildFailureReply({ text: "Sorry" }, failure, context)?.subject
+    ).toBe("Re: Hello");
+    expect(buildFailureReply(null, failure, context)).toBeNull();
+  });
+});
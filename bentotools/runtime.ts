@@ -0,0 +1,399 @@
+/**
+ * Tool Runtime
+ *
+ * Shared helpers for invoking tool functions. Used by the transform_email
+ * script processor (imported at runtime from the deployed tools tree) and by
+ * the offline test runner, so both behave the same way.
+ *
+ * Tools may be synchronous or return a Promise. Every invocation is bounded by
+ * a timeout: the tool's own `timeoutMs` property if set, otherwise
+ * TOOL_TIMEOUT_MS (default: 30 seconds).
+ *
+ * A tool returns either a plain string, which is wrapped into the default
+ * "Here is your transformed text" reply, or a ToolResult describing the reply.
+ * Reply attachments are base64 encoded into the outbox record, whose total size
+ * is limited to OUTBOX_MAX_RECORD_BYTES (default: 1 MiB, the S2 record limit).
+ *
+ * If a tool throws, times out or does not exist, transform_email writes a
+ * ToolFailure record to the errors/<inbox> dead-letter stream instead, and
+ * replies to the sender only if index.ts exports a $FAILURE_REPLY template.
+ * Failure records are cut down to OUTBOX_MAX_RECORD_BYTES as well (the email
+ * bodies first), so an oversized email cannot block the errors stream.
+ */
+
+import type {
+  Email,
+  ToolEmail,
+  ToolFailureReply,
+  ToolOutput,
+  ToolResult,
+} from "bentotools";
+import {
+  createResendAttachmentFetcher,
+  withAttachmentContent,
+  type AttachmentFetcher,
+} from "./attachments.ts";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 30_000;
+export const DEFAULT_OUTBOX_MAX_RECORD_BYTES = 1024 * 1024;
+
+export interface ToolFunction {
+  (email: ToolEmail): ToolOutput | Promise<ToolOutput>;
+  timeoutMs?: number;
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool function "${toolName}" timed out after ${timeoutMs}ms`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+export class ReplyTooLargeError extends Error {
+  constructor(size: number, maxBytes: number) {
+    super(
+      `Reply is ${size} bytes, which exceeds the outbox record limit of ${maxBytes} bytes`
+    );
+    this.name = "ReplyTooLargeError";
+  }
+}
+
+// Look up a tool function by inbox name
+export function getTool(
+  tools: Record<string, unknown>,
+  name: string
+): ToolFunction {
+  const tool = tools[name];
+  if (!tool || typeof tool !== "function") {
+    throw new Error(`Tool function "${name}" not found in index.ts`);
+  }
+  return tool as ToolFunction;
+}
+
+// Resolve the size limit of an outbox or errors record
+export function outboxMaxRecordBytes(): number {
+  return Number(
+    process.env.OUTBOX_MAX_RECORD_BYTES || DEFAULT_OUTBOX_MAX_RECORD_BYTES
+  );
+}
+
+// Resolve the timeout for a tool
+export function toolTimeout(tool: ToolFunction): number {
+  return (
+    tool.timeoutMs ??
+    Number(process.env.TOOL_TIMEOUT_MS || DEFAULT_TOOL_TIMEOUT_MS)
+  );
+}
+
+// Build the Email passed to a tool from the webhook's data object
+// Every field is kept as delivered, only nulls are dropped so optional fields
+// are undefined (as the Email type declares) rather than null.
+// Attachments get a lazy getContent() backed by fetchAttachment (default: the
+// Resend API, using RESEND_API_KEY and RESEND_API_URL)
+export function buildEmail(
+  data: Record<string, unknown>,
+  options: { fetchAttachment?: AttachmentFetcher } = {}
+): ToolEmail {
+  const email: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== null && value !== undefined) {
+      email[key] = value;
+    }
+  }
+
+  if (Array.isArray(email.attachments)) {
+    const fetchAttachment =
+      options.fetchAttachment ??
+      createResendAttachmentFetcher({
+        apiKey: process.env.RESEND_API_KEY || "",
+        apiUrl: process.env.RESEND_API_URL,
+      });
+    email.attachments = withAttachmentContent(
+      String(email.id),
+      email.attachments,
+      fetchAttachment
+    );
+  }
+
+  return email as unknown as ToolEmail;
+}
+
+// Call a tool and await its result, failing with ToolTimeoutError if it takes
+// longer than its timeout
+export async function invokeTool(
+  name: string,
+  tool: ToolFunction,
+  email: ToolEmail
+): Promise<ToolOutput> {
+  const timeoutMs = toolTimeout(tool);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ToolTimeoutError(name, timeoutMs)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([Promise.resolve(tool(email)), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Context of the email being replied to
+export interface ReplyContext {
+  inboxName: string;
+  senderEmail: string; // the tool's address, e.g. reverser@domain.com
+  receiver: string; // the original sender
+  subject: string;
+  testToken?: string; // see TEST_TOKEN_HEADER
+}
+
+// sync.ts marks its $TESTS emails with this header, and replies to them carry
+// it back, so the reply is found in the outbox whatever subject the tool sets
+export const TEST_TOKEN_HEADER = "X-Bento-Test";
+
+// The test token of an inbound email, if it is a $TESTS email
+// Header names are matched case-insensitively
+export function testToken(data: Record<string, unknown>): string | undefined {
+  const headers = data.headers;
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() === TEST_TOKEN_HEADER.toLowerCase()) {
+      const token = Array.isArray(value) ? value[0] : value;
+      return typeof token === "string" ? token : undefined;
+    }
+  }
+  return undefined;
+}
+
+// Resend API payload for a reply
+export interface ReplyPayload {
+  from: string;
+  to: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  cc?: string[];
+  bcc?: string[];
+  reply_to?: string | string[];
+  headers?: Record<string, string>;
+  attachments?: Array<{
+    filename: string;
+    content: string; // base64
+    content_type?: string;
+  }>;
+}
+
+// Normalize a tool output into a ToolResult
+// Plain strings become the default "Here is your transformed text" reply
+export function toToolResult(output: ToolOutput): ToolResult {
+  if (typeof output === "string") {
+    return {
+      html: `<p>Here is your transformed text:</p><blockquote>${output}</blockquote>`,
+    };
+  }
+  return output;
+}
+
+// The text a tool produced, for comparing against test expectations
+export function outputText(output: ToolOutput): string {
+  if (typeof output === "string") {
+    return output;
+  }
+  return output.text ?? output.html ?? "";
+}
+
+// Build the Resend payload for a tool output, or null if the tool asked for no reply
+export function buildReply(
+  output: ToolOutput,
+  context: ReplyContext
+): ReplyPayload | null {
+  const result = toToolResult(output);
+  if (result.noReply) {
+    return null;
+  }
+
+  const displayName =
+    context.inboxName.charAt(0).toUpperCase() + context.inboxName.slice(1);
+  const reply: ReplyPayload = {
+    from: `${displayName} <${context.senderEmail}>`,
+    to: [context.receiver, ...(result.to ?? [])],
+    subject: result.subject ?? `Re: ${context.subject}`,
+  };
+
+  // Only set optional fields the tool provided, Resend rejects nulls
+  if (result.html !== undefined) reply.html = result.html;
+  if (result.text !== undefined) reply.text = result.text;
+  if (result.cc?.length) reply.cc = result.cc;
+  if (result.bcc?.length) reply.bcc = result.bcc;
+  if (result.reply_to !== undefined) reply.reply_to = result.reply_to;
+  if (context.testToken) {
+    reply.headers = { [TEST_TOKEN_HEADER]: context.testToken };
+  }
+  if (result.attachments?.length) {
+    reply.attachments = result.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      content:
+        typeof attachment.content === "string"
+          ? attachment.content
+          : Buffer.from(attachment.content).toString("base64"),
+      ...(attachment.content_type
+        ? { content_type: attachment.content_type }
+        : {}),
+    }));
+  }
+
+  // The reply travels through S2 as a single record
+  const maxBytes = outboxMaxRecordBytes();
+  const size = Buffer.byteLength(JSON.stringify(reply));
+  if (size > maxBytes) {
+    throw new ReplyTooLargeError(size, maxBytes);
+  }
+
+  return reply;
+}
+
+// A failed tool invocation, as written to the errors/<inbox> stream
+export interface ToolFailure {
+  tool: string;
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+  // The webhook's data object, as the tool would have received it
+  email: Email;
+  timestamp: string;
+  // Fields that were cut to fit into one S2 record, e.g. "email.html"
+  truncated?: string[];
+}
+
+// Fields of a failure record that are cut when it is too large, in order
+const TRUNCATED_FIELDS = [
+  ["email", "html"],
+  ["email", "text"],
+  ["error", "stack"],
+  ["error", "message"],
+] as const;
+
+const TRUNCATED_MARKER = "… [truncated]";
+
+// Cut a failure record down to maxBytes of JSON
+// Fields are cut in TRUNCATED_FIELDS order; if that is not enough, only the
+// email's id, addresses, subject and date are kept
+function truncateFailure(failure: ToolFailure, maxBytes: number): ToolFailure {
+  const size = (value: unknown) => Buffer.byteLength(JSON.stringify(value));
+  if (size(failure) <= maxBytes) {
+    return failure;
+  }
+
+  const record = {
+    ...failure,
+    email: { ...failure.email },
+    error: { ...failure.error },
+    truncated: [] as string[],
+  };
+  for (const [part, field] of TRUNCATED_FIELDS) {
+    if (size(record) <= maxBytes) {
+      return record;
+    }
+    const target = record[part] as Record<string, unknown>;
+    const value = target[field];
+    if (typeof value !== "string" || value === "") {
+      continue;
+    }
+    record.truncated.push(`${part}.${field}`);
+    const excess = size(record) - maxBytes;
+    // JSON takes at least one byte per character, so dropping `excess`
+    // characters (plus room for the marker's bytes) is enough
+    target[field] =
+      value.slice(
+        0,
+        Math.max(0, value.length - excess - Buffer.byteLength(TRUNCATED_MARKER))
+      ) + TRUNCATED_MARKER;
+  }
+
+  if (size(record) > maxBytes) {
+    const { id, from, to, subject, created_at } = record.email;
+    record.email = { id, from, to, subject, created_at };
+    record.truncated.push("email");
+  }
+  return record;
+}
+
+// Build the dead-letter record for a failed invocation
+export function buildFailure(
+  tool: string,
+  data: Record<string, unknown>,
+  error: unknown,
+  now: Date = new Date()
+): ToolFailure {
+  const cause =
+    error instanceof Error
+      ? { name: error.name, message: error.message, stack: error.stack }
+      : { name: "Error", message: String(error) };
+  return truncateFailure(
+    {
+      tool,
+      error: cause,
+      email: data as unknown as Email,
+      timestamp: now.toISOString(),
+    },
+    outboxMaxRecordBytes()
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Build the "sorry, that failed" reply from the $FAILURE_REPLY template, or
+// null if there is no template
+// {{tool}}, {{subject}}, {{from}} and {{error}} are replaced, HTML-escaped in
+// the html body
+export function buildFailureReply(
+  template: ToolFailureReply | null | undefined,
+  failure: ToolFailure,
+  context: ReplyContext
+): ReplyPayload | null {
+  if (!template) {
+    return null;
+  }
+
+  const values: Record<string, string> = {
+    tool: failure.tool,
+    subject: context.subject,
+    from: context.receiver,
+    error: failure.error.message,
+  };
+  const fill = (text: string, escape: (value: string) => string) =>
+    text.replace(/\{\{(\w+)\}\}/g, (placeholder, name) =>
+      name in values ? escape(values[name]!) : placeholder
+    );
+  const plain = (value: string) => value;
+
+  return buildReply(
+    {
+      subject:
+        template.subject !== undefined
+          ? fill(template.subject, plain)
+          : undefined,
+      html:
+        template.html !== undefined
+          ? fill(template.html, escapeHtml)
+          : undefined,
+      text:
+        template.text !== undefined ? fill(template.text, plain) : undefined,
+    },
+    context
+  );
+}
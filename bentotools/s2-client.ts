@@ -0,0 +1,93 @@
+/**
+ * S2 Client
+ *
+ * The few S2 operations sync.ts and the CLI need (creating a stream, checking
+ * its tail, appending and reading records), on top of the @s2-dev/streamstore
+ * SDK. An endpoint (S2_ENDPOINT) replaces both the account and the basin
+ * endpoint, e.g. to talk to the s2-local.ts stand-in; the SDK then names the
+ * basin in an s2-basin header.
+ *
+ * Sessions use the SDK's fetch transport (JSON and server-sent events over
+ * HTTP/1.1), which is what the stand-in speaks.
+ */
+
+import {
+  AppendInput,
+  AppendRecord,
+  S2,
+  S2Error,
+  type S2Basin,
+} from "@s2-dev/streamstore";
+
+export interface S2ClientSettings {
+  basin: string;
+  accessToken: string;
+  // Replaces the default S2 endpoints, e.g. http://localhost:4196
+  endpoint?: string;
+}
+
+export interface S2Record {
+  seqNum: number;
+  // Milliseconds since the epoch, when S2 received the record
+  timestamp: number;
+  body: string;
+}
+
+export interface S2Client {
+  // Create a stream, doing nothing if it already exists
+  createStream(stream: string): Promise<void>;
+  // Sequence number the next appended record will get
+  tail(stream: string): Promise<number>;
+  append(stream: string, body: string): Promise<void>;
+  read(stream: string, seqNum: number, limit: number): Promise<S2Record[]>;
+}
+
+// Create a client for a basin
+export function createS2Client(settings: S2ClientSettings): S2Client {
+  const s2 = new S2({
+    accessToken: settings.accessToken,
+    ...(settings.endpoint
+      ? {
+          endpoints: { account: settings.endpoint, basin: settings.endpoint },
+        }
+      : {}),
+  });
+  const basin: S2Basin = s2.basin(settings.basin);
+  const stream = (name: string) =>
+    basin.stream(name, { forceTransport: "fetch" });
+
+  return {
+    async createStream(name) {
+      try {
+        await basin.streams.create({ stream: name });
+      } catch (error) {
+        if (!(error instanceof S2Error && error.status === 409)) {
+          throw error;
+        }
+      }
+    },
+
+    async tail(name) {
+      const { tail } = await stream(name).checkTail();
+      return tail.seqNum;
+    },
+
+    async append(name, body) {
+      await stream(name).append(
+        AppendInput.create([AppendRecord.string({ body })])
+      );
+    },
+
+    async read(name, seqNum, limit) {
+      const { records } = await stream(name).read({
+        start: { from: { seqNum } },
+        stop: { limits: { count: limit } },
+      });
+      return records.map((record) => ({
+        seqNum: record.seqNum,
+        timestamp: record.timestamp.getTime(),
+        body: record.body ?? "",
+      }));
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { S2 } from "@s2-dev/streamstore";
+import { createS2Client } from "./s2-client.ts";
+import { createS2LocalHandler, startS2Local } from "./s2-local.ts";
+
+const BASE = "http://localhost:4196/v1/streams";
+
+function request(
+  handler: ReturnType<typeof createS2LocalHandler>,
+  path: string,
+  init: { method?: string; body?: unknown; basin?: string } = {}
+) {
+  return handler(
+    new Request(`${BASE}${path}`, {
+      method: init.method || "GET",
+      headers: { "s2-basin": init.basin || "test-basin" },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    })
+  );
+}
+
+describe("local S2 stand-in", () => {
+  test("appends and reads records in order", async () => {
+    const handler = createS2LocalHandler();
+    const stream = `/${encodeURIComponent("inbox/reverser")}/records`;
+
+    const ack = await request(handler, stream, {
+      method: "POST",
+      body: { records: [{ body: "first" }, { body: "second" }] },
+    });
+    expect(await ack.json()).toMatchObject({
+      start: { seq_num: 0 },
+      end: { seq_num: 2 },
+    });
+
+    const read = await request(handler, `${stream}?seq_num=1&count=10`);
+    const { records } = (await read.json()) as { records: any[] };
+    expect(records.map((r) => [r.seq_num, r.body])).toEqual([[1, "second"]]);
+
+    const tail = await request(handler, `${stream}/tail`);
+    expect(await tail.json()).toMatchObject({ tail: { seq_num: 2 } });
+  });
+
+  test("creates, lists and deletes streams", async () => {
+    const handler = createS2LocalHandler();
+
+    expect(
+      (
+        await request(handler, "", {
+          method: "POST",
+          body: { stream: "outbox" },
+        })
+      ).status
+    ).toBe(201);
+    expect(
+      (
+        await request(handler, "", {
+          method: "POST",
+          body: { stream: "outbox" },
+        })
+      ).status
+    ).toBe(409);
+
+    const list = await request(handler, "");
+    expect(await list.json()).toMatchObject({ streams: [{ name: "outbox" }] });
+
+    expect(
+      (await request(handler, "/outbox", { method: "DELETE" })).status
+    ).toBe(202);
+    expect(
+      (await request(handler, "/outbox", { method: "DELETE" })).status
+    ).toBe(404);
+  });
+
+  test("keeps basins isolated", async () => {
+    const handler = createS2LocalHandler();
+    await request(handler, "/outbox/records", {
+      method: "POST",
+      body: { records: [{ body: "a" }] },
+      basin: "one",
+    });
+
+    const other = await request(handler, "/outbox/records/tail", {
+      basin: "two",
+    });
+    expect(await other.json()).toMatchObject({ tail: { seq_num: 0 } });
+  });
+});
+
+describe("local S2 stand-in with the S2 SDK", () => {
+  const server = startS2Local(0);
+  const endpoint = server.url.origin;
+
+  afterAll(() => server.stop(true));
+
+  test("creates streams, appends, reads and checks the tail", async () => {
+    const client = createS2Client({
+      basin: "sdk-basin",
+      accessToken: "token",
+      endpoint,
+    });
+    await client.createStream("outbox");
+    await client.createStream("outbox");
+
+    await client.append("inbox/reverser", "first");
+    await client.append("inbox/reverser", "second");
+    expect(await client.tail("inbox/reverser")).toBe(2);
+    expect(await client.tail("outbox")).toBe(0);
+
+    const records = await client.read("inbox/reverser", 1, 10);
+    expect(records.map((r) => [r.seqNum, r.body])).toEqual([[1, "second"]]);
+  });
+
+  test("follows the tail in read sessions", async () => {
+    const basin = new S2({
+      accessToken: "token",
+      endpoints: { account: endpoint, basin: endpoint },
+    }).basin("session-basin");
+    const client = createS2Client({
+      basin: "session-basin",
+      accessToken: "token",
+      endpoint,
+    });
+    await client.append("outbox", "before");
+
+    const session = await basin
+      .stream("outbox", { forceTransport: "fetch" })
+      .readSession({ start: { from: { seqNum: 0 } } });
+    const bodies: string[] = [];
+    for await (const record of session) {
+      bodies.push(record.body ?? "");
+      if (bodies.length === 1) {
+        // Appended while the session is open
+        await client.append("outbox", "after");
+      } else {
+        break;
+      }
+    }
+    expect(bodies).toEqual(["before", "after"]);
+  });
+});
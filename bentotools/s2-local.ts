@@ -0,0 +1,268 @@
+#!/usr/bin/env bun
+/**
+ * Local S2 Stand-in
+ *
+ * An in-memory server speaking the subset of the S2 REST API (v1) that the
+ * bentotools pipeline uses: listing, creating and deleting streams, appending
+ * records, reading records, checking the tail of a stream and read sessions
+ * (GET .../records with "Accept: text/event-stream"), which send the records
+ * from the requested position as server-sent "batch" events and then follow
+ * the tail, with a "ping" event every PING_INTERVAL_MS.
+ *
+ * Point S2_ENDPOINT at it (e.g. http://localhost:4196) to run sync.ts tests and
+ * local experiments without a real S2 basin: sync.ts passes it to the S2 client
+ * and, as `endpoint`, to every s2 input and output it deploys to Bento. The
+ * basin is taken from the
+ * "s2-basin" header, falling back to the first label of the Host header
+ * (<basin>.b.aws.s2.dev style). Streams are created on first append or read,
+ * like a basin configured with create_stream_on_append/create_stream_on_read.
+ *
+ * Usage:
+ *   bun s2-local.ts            Listen on S2_LOCAL_PORT (default 4196)
+ */
+
+interface StoredRecord {
+  seq_num: number;
+  timestamp: number;
+  headers: Array<[string, string]>;
+  body: string;
+}
+
+interface StoredStream {
+  created_at: string;
+  records: StoredRecord[];
+  // Read sessions waiting for new records
+  listeners: Set<() => void>;
+}
+
+// Read sessions send a ping with the tail this often while no records arrive
+export const PING_INTERVAL_MS = 10_000;
+
+type Basin = Map<string, StoredStream>;
+
+function json(data: unknown, status: number = 200): Response {
+  return Response.json(data, { status });
+}
+
+function error(message: string, status: number): Response {
+  return json({ message }, status);
+}
+
+// Determine the basin a request is addressed to
+function basinName(request: Request): string {
+  const header = request.headers.get("s2-basin");
+  if (header) {
+    return header;
+  }
+  const host = new URL(request.url).hostname;
+  return host.includes(".") ? host.split(".")[0]! : "local";
+}
+
+function tail(stream: StoredStream) {
+  const last = stream.records[stream.records.length - 1];
+  return {
+    seq_num: stream.records.length,
+    timestamp: last ? last.timestamp : 0,
+  };
+}
+
+// Stream records from a sequence number as server-sent events, following the
+// tail until `count` records were sent (or forever) or the client disconnects
+function readSession(
+  stream: StoredStream,
+  seqNum: number,
+  count?: number
+): Response {
+  const encoder = new TextEncoder();
+  let next = seqNum;
+  let sent = 0;
+  let stop = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      const flush = () => {
+        const limit = count === undefined ? Infinity : count - sent;
+        const records = stream.records.slice(
+          next,
+          next + Math.min(limit, 1000)
+        );
+        if (records.length > 0) {
+          send("batch", { records, tail: tail(stream) });
+          next += records.length;
+          sent += records.length;
+        }
+        if (count !== undefined && sent >= count) {
+          stop();
+          controller.close();
+        } else if (next < stream.records.length) {
+          flush();
+        }
+      };
+      const ping = setInterval(
+        () => send("ping", { tail: tail(stream) }),
+        PING_INTERVAL_MS
+      );
+      stop = () => {
+        clearInterval(ping);
+        stream.listeners.delete(flush);
+      };
+      stream.listeners.add(flush);
+      flush();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(body, {
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+// Create the request handler for an in-memory set of basins
+export function createS2LocalHandler(): (
+  request: Request
+) => Promise<Response> {
+  const basins = new Map<string, Basin>();
+
+  function getBasin(request: Request): Basin {
+    const name = basinName(request);
+    let basin = basins.get(name);
+    if (!basin) {
+      basin = new Map();
+      basins.set(name, basin);
+    }
+    return basin;
+  }
+
+  function getOrCreateStream(basin: Basin, name: string): StoredStream {
+    let stream = basin.get(name);
+    if (!stream) {
+      stream = {
+        created_at: new Date().toISOString(),
+        records: [],
+        listeners: new Set(),
+      };
+      basin.set(name, stream);
+    }
+    return stream;
+  }
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const basin = getBasin(request);
+
+    // /v1/streams
+    if (url.pathname === "/v1/streams") {
+      if (request.method === "GET") {
+        const prefix = url.searchParams.get("prefix") || "";
+        const streams = [...basin.entries()]
+          .filter(([name]) => name.startsWith(prefix))
+          .map(([name, stream]) => ({
+            name,
+            created_at: stream.created_at,
+            deleted_at: null,
+          }));
+        return json({ streams, has_more: false });
+      }
+      if (request.method === "POST") {
+        const { stream: name } = (await request.json()) as { stream?: string };
+        if (!name) {
+          return error("Missing stream name", 400);
+        }
+        if (basin.has(name)) {
+          return error(`Stream '${name}' already exists`, 409);
+        }
+        const stream = getOrCreateStream(basin, name);
+        return json({ name, created_at: stream.created_at }, 201);
+      }
+      return error("Method not allowed", 405);
+    }
+
+    // /v1/streams/{stream}[/records[/tail]]
+    // Stream names may contain slashes (inbox/reverser) and arrive URL-encoded
+    const match = url.pathname.match(
+      /^\/v1\/streams\/(.+?)(\/records(\/tail)?)?$/
+    );
+    if (!match) {
+      return error("Not found", 404);
+    }
+    const name = decodeURIComponent(match[1]!);
+    const isRecords = !!match[2];
+    const isTail = !!match[3];
+
+    if (!isRecords) {
+      if (request.method === "DELETE") {
+        if (!basin.delete(name)) {
+          return error(`Stream '${name}' not found`, 404);
+        }
+        return new Response(null, { status: 202 });
+      }
+      return error("Method not allowed", 405);
+    }
+
+    const stream = getOrCreateStream(basin, name);
+
+    if (isTail) {
+      return json({ tail: tail(stream) });
+    }
+
+    if (request.method === "POST") {
+      const { records } = (await request.json()) as {
+        records?: Array<{ body?: string; headers?: Array<[string, string]> }>;
+      };
+      if (!records || records.length === 0) {
+        return error("At least one record is required", 400);
+      }
+      const start = tail(stream);
+      for (const record of records) {
+        stream.records.push({
+          seq_num: stream.records.length,
+          timestamp: Date.now(),
+          headers: record.headers || [],
+          body: record.body || "",
+        });
+      }
+      for (const listener of stream.listeners) {
+        listener();
+      }
+      return json({ start, end: tail(stream), tail: tail(stream) });
+    }
+
+    if (
+      request.method === "GET" &&
+      request.headers.get("accept")?.includes("text/event-stream")
+    ) {
+      const count = url.searchParams.get("count");
+      return readSession(
+        stream,
+        Number(url.searchParams.get("seq_num") || 0),
+        count ? Number(count) : undefined
+      );
+    }
+
+    if (request.method === "GET") {
+      const seqNum = Number(url.searchParams.get("seq_num") || 0);
+      const count = Number(url.searchParams.get("count") || 1000);
+      const records = stream.records.slice(seqNum, seqNum + count);
+      return json({ records, tail: tail(stream) });
+    }
+
+    return error("Method not allowed", 405);
+  };
+}
+
+// Start the stand-in server
+export function startS2Local(port: number = 4196) {
+  return Bun.serve({ port, fetch: createS2LocalHandler() });
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  const server = startS2Local(Number(process.env.S2_LOCAL_PORT || 4196));
+  console.log(`🌊 Local S2 stand-in listening on ${server.url}`);
+}
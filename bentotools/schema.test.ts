@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatValidationError,
+  validateStream,
+  validateStreams,
+} from "./schema.ts";
+
+const s2 = { basin: "example-com", auth_token: "token" };
+
+const ingest = {
+  input: {
+    http_server: {
+      path: "/webhooks/resend",
+      allowed_verbs: ["POST"],
+      timeout: "5s",
+      sync_response: { status: '${! @webhook_status | "200" }' },
+    },
+  },
+  pipeline: {
+    processors: [
+      { bloblang: "root = this" },
+      { script: { language: "javascript", code: "root = {}" } },
+    ],
+  },
+  output: {
+    switch: {
+      cases: [
+        { check: '@webhook_status == "401"', output: { sync_response: {} } },
+        { output: { s2: { ...s2, stream: "inbox/reverser" } } },
+      ],
+    },
+  },
+};
+
+const send = {
+  input: { s2: { ...s2, streams: "outbox", cache: "s2_outbox_cache" } },
+  output: {
+    http_client: {
+      url: "https://api.resend.com/emails",
+      verb: "POST",
+      headers: { Authorization: "Bearer key" },
+      retries: 3,
+    },
+  },
+};
+
+describe("validateStream", () => {
+  test("accepts the components our streams use", () => {
+    expect(validateStreams({ ingest, send })).toEqual([]);
+  });
+
+  test("reports every error with its path", () => {
+    const broken = {
+      input: {
+        http_server: { path: "webhooks", timeout: "5 seconds", port: 80 },
+      },
+      pipeline: {
+        processors: [
+          { script: { language: "python", code: "x" } },
+          { bloblang: "root = this", mapping: "x" },
+          { label: "empty" },
+        ],
+      },
+      output: {
+        switch: {
+          cases: [{ output: { s2: { ...s2, max_in_flight: "4" } } }],
+        },
+      },
+    };
+
+    expect(validateStream("ingest", broken as any)).toEqual([
+      {
+        stream: "ingest",
+        path: "input.http_server.path",
+        message: 'expected a path starting with "/", got "webhooks"',
+      },
+      {
+        stream: "ingest",
+        path: "input.http_server.timeout",
+        message: 'expected a duration like "5s", got "5 seconds"',
+      },
+      {
+        stream: "ingest",
+        path: "input.http_server.port",
+        message: "is not a known field",
+      },
+      {
+        stream: "ingest",
+        path: "pipeline.processors[0].script.language",
+        message: 'expected one of javascript, got "python"',
+      },
+      {
+        stream: "ingest",
+        path: "pipeline.processors[1]",
+        message:
+          "expected exactly one processor (bloblang, script), got bloblang, mapping",
+      },
+      {
+        stream: "ingest",
+        path: "pipeline.processors[2]",
+        message: "expected exactly one processor (bloblang, script), got none",
+      },
+      {
+        stream: "ingest",
+        path: "output.switch.cases[0].output.s2.stream",
+        message: "is required",
+      },
+      {
+        stream: "ingest",
+        path: "output.switch.cases[0].output.s2.max_in_flight",
+        message: 'expected a number, got "4"',
+      },
+    ]);
+  });
+
+  test("reports unsupported components and missing sections", () => {
+    const errors = validateStream("send", {
+      input: { kafka: {} },
+    } as any);
+    expect(errors.map(formatValidationError)).toEqual([
+      "send: output: is required",
+      "send: input.kafka: is not a supported input (expected one of http_server, s2)",
+    ]);
+  });
+
+  test("checks the processors of outputs", () => {
+    const stream = (processors: unknown) => ({
+      input: { s2: { ...s2, streams: "outbox" } },
+      output: { s2: { ...s2, stream: "errors/a" }, processors },
+    });
+    expect(validateStream("a", stream([{ bloblang: "root = this" }]))).toEqual(
+      []
+    );
+    expect(
+      validateStream("a", stream([{ mapping: "root = this" }])).map(
+        formatValidationError
+      )
+    ).toEqual([
+      "a: output.processors[0].mapping: is not a supported processor (expected one of bloblang, script)",
+    ]);
+  });
+
+  test("checks the outputs of brokers", () => {
+    const stream = (outputs: unknown) => ({
+      input: { s2: { ...s2, streams: "outbox" } },
+      output: { broker: { pattern: "fan_out_sequential", outputs } },
+    });
+    expect(
+      validateStream(
+        "a",
+        stream([
+          { s2: { ...s2, stream: "outbox" } },
+          { drop: {}, processors: [{ bloblang: "root = this" }] },
+        ])
+      )
+    ).toEqual([]);
+    expect(
+      validateStream("a", stream([{ kafka: {} }])).map(formatValidationError)
+    ).toEqual([
+      "a: output.broker.outputs[0].kafka: is not a supported output (expected one of s2, http_client, sync_response, drop, broker, switch)",
+    ]);
+  });
+
+  test("accepts a list of input streams but not an empty one", () => {
+    const input = (streams: unknown) => ({
+      input: { s2: { ...s2, streams } },
+      output: { sync_response: {} },
+    });
+    expect(validateStream("a", input(["inbox/a", "inbox/b"]))).toEqual([]);
+    expect(validateStream("a", input([])).map((e) => e.message)).toEqual([
+      "expected a string or an array of strings, got an array",
+    ]);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Stream Definition Schema
+ *
+ * A runtime schema of the Bento components our stream definitions use,
+ * mirroring the types in the bentotools package. sync.ts validates every
+ * compiled stream against it before touching Bento, so a typo fails the whole
+ * sync up front instead of surfacing as an HTTP 400 halfway through.
+ *
+ * Every error carries the stream name and the JSON path of the offending value
+ * (e.g. pipeline.processors[0].script.language), in the same format as the
+ * --dry-run diff.
+ */
+
+export interface ValidationError {
+  stream: string;
+  path: string;
+  message: string;
+}
+
+type Schema =
+  | { type: "string"; pattern?: RegExp; description?: string }
+  | { type: "number" | "boolean" }
+  | { type: "enum"; values: string[] }
+  | { type: "array"; items: Schema; minItems?: number }
+  | { type: "record"; values: Schema }
+  | { type: "object"; fields: Record<string, Schema>; required?: string[] }
+  // An object with exactly one component key, plus an optional label and the
+  // fields common to every component of its kind
+  | {
+      type: "component";
+      kind: string;
+      components: Record<string, Schema>;
+      fields?: Record<string, Schema>;
+    }
+  | { type: "union"; options: Schema[]; description: string };
+
+const STRING: Schema = { type: "string" };
+const NUMBER: Schema = { type: "number" };
+const BOOLEAN: Schema = { type: "boolean" };
+const DURATION: Schema = {
+  type: "string",
+  pattern: /^(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/,
+  description: 'a duration like "5s"',
+};
+const HTTP_VERB: Schema = {
+  type: "enum",
+  values: ["GET", "POST", "PUT", "PATCH", "DELETE"],
+};
+const HEADERS: Schema = { type: "record", values: STRING };
+
+const INPUT: Schema = {
+  type: "component",
+  kind: "input",
+  components: {
+    http_server: {
+      type: "object",
+      required: ["path"],
+      fields: {
+        path: {
+          type: "string",
+          pattern: /^\//,
+          description: 'a path starting with "/"',
+        },
+        allowed_verbs: { type: "array", items: HTTP_VERB, minItems: 1 },
+        timeout: DURATION,
+        address: STRING,
+        rate_limit: STRING,
+        sync_response: {
+          type: "object",
+          fields: { status: STRING, headers: HEADERS },
+        },
+      },
+    },
+    s2: {
+      type: "object",
+      required: ["basin", "streams", "auth_token"],
+      fields: {
+        basin: STRING,
+        streams: {
+          type: "union",
+          options: [STRING, { type: "array", items: STRING, minItems: 1 }],
+          description: "a string or an array of strings",
+        },
+        auth_token: STRING,
+        endpoint: STRING,
+        cache: STRING,
+      },
+    },
+  },
+};
+
+const PROCESSOR: Schema = {
+  type: "component",
+  kind: "processor",
+  components: {
+    bloblang: STRING,
+    script: {
+      type: "object",
+      required: ["language", "code"],
+      fields: {
+        language: { type: "enum", values: ["javascript"] },
+        code: STRING,
+      },
+    },
+  },
+};
+
+const OUTPUT_COMPONENTS: Record<string, Schema> = {
+  s2: {
+    type: "object",
+    required: ["basin", "stream", "auth_token"],
+    fields: {
+      basin: STRING,
+      stream: STRING,
+      auth_token: STRING,
+      endpoint: STRING,
+      max_in_flight: NUMBER,
+    },
+  },
+  http_client: {
+    type: "object",
+    required: ["url"],
+    fields: {
+      url: STRING,
+      verb: HTTP_VERB,
+      headers: HEADERS,
+      timeout: DURATION,
+      retries: NUMBER,
+      max_in_flight: NUMBER,
+    },
+  },
+  sync_response: { type: "object", fields: {} },
+  drop: { type: "object", fields: {} },
+};
+
+const OUTPUT: Schema = {
+  type: "component",
+  kind: "output",
+  components: OUTPUT_COMPONENTS,
+  fields: { processors: { type: "array", items: PROCESSOR } },
+};
+
+// switch cases and brokers contain outputs themselves
+OUTPUT_COMPONENTS.broker = {
+  type: "object",
+  required: ["outputs"],
+  fields: {
+    pattern: {
+      type: "enum",
+      values: ["fan_out", "fan_out_sequential", "round_robin", "greedy"],
+    },
+    outputs: { type: "array", items: OUTPUT, minItems: 1 },
+  },
+};
+OUTPUT_COMPONENTS.switch = {
+  type: "object",
+  required: ["cases"],
+  fields: {
+    cases: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["output"],
+        fields: { check: STRING, output: OUTPUT, continue: BOOLEAN },
+      },
+    },
+  },
+};
+
+const STREAM: Schema = {
+  type: "object",
+  required: ["input", "output"],
+  fields: {
+    input: INPUT,
+    pipeline: {
+      type: "object",
+      required: ["processors"],
+      fields: { processors: { type: "array", items: PROCESSOR } },
+    },
+    output: OUTPUT,
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "string") return JSON.stringify(value);
+  return `${typeof value} ${String(value)}`;
+}
+
+// Check a value against a schema, collecting errors as [path, message]
+function check(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  errors: Array<[string, string]>
+) {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        errors.push([path, `expected a string, got ${describe(value)}`]);
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        errors.push([
+          path,
+          `expected ${
+            schema.description ?? `a string matching ${schema.pattern}`
+          }, got ${describe(value)}`,
+        ]);
+      }
+      return;
+
+    case "number":
+    case "boolean":
+      if (typeof value !== schema.type) {
+        errors.push([
+          path,
+          `expected a ${schema.type}, got ${describe(value)}`,
+        ]);
+      }
+      return;
+
+    case "enum":
+      if (typeof value !== "string" || !schema.values.includes(value)) {
+        errors.push([
+          path,
+          `expected one of ${schema.values.join(", ")}, got ${describe(value)}`,
+        ]);
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push([path, `expected an array, got ${describe(value)}`]);
+        return;
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.push([path, `expected at least ${schema.minItems} item(s)`]);
+      }
+      value.forEach((item, index) =>
+        check(item, schema.items, joinPath(path, index), errors)
+      );
+      return;
+
+    case "record":
+      if (!isPlainObject(value)) {
+        errors.push([path, `expected an object, got ${describe(value)}`]);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        check(item, schema.values, joinPath(path, key), errors);
+      }
+      return;
+
+    case "object":
+      if (!isPlainObject(value)) {
+        errors.push([path, `expected an object, got ${describe(value)}`]);
+        return;
+      }
+      for (const field of schema.required ?? []) {
+        if (value[field] === undefined) {
+          errors.push([joinPath(path, field), "is required"]);
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const fieldSchema = schema.fields[key];
+        if (!fieldSchema) {
+          errors.push([joinPath(path, key), "is not a known field"]);
+        } else if (item !== undefined) {
+          check(item, fieldSchema, joinPath(path, key), errors);
+        }
+      }
+      return;
+
+    case "component": {
+      if (!isPlainObject(value)) {
+        errors.push([
+          path,
+          `expected ${schema.kind} object, got ${describe(value)}`,
+        ]);
+        return;
+      }
+      if (value.label !== undefined && typeof value.label !== "string") {
+        errors.push([joinPath(path, "label"), "expected a string"]);
+      }
+      const common = schema.fields ?? {};
+      for (const [key, fieldSchema] of Object.entries(common)) {
+        if (value[key] !== undefined) {
+          check(value[key], fieldSchema, joinPath(path, key), errors);
+        }
+      }
+      const keys = Object.keys(value).filter(
+        (key) => key !== "label" && !(key in common)
+      );
+      const known = Object.keys(schema.components);
+      if (keys.length !== 1) {
+        errors.push([
+          path,
+          `expected exactly one ${schema.kind} (${known.join(", ")}), got ${
+            keys.length === 0 ? "none" : keys.join(", ")
+          }`,
+        ]);
+        return;
+      }
+      const component = keys[0]!;
+      const componentSchema = schema.components[component];
+      if (!componentSchema) {
+        errors.push([
+          joinPath(path, component),
+          `is not a supported ${schema.kind} (expected one of ${known.join(
+            ", "
+          )})`,
+        ]);
+        return;
+      }
+      check(
+        value[component],
+        componentSchema,
+        joinPath(path, component),
+        errors
+      );
+      return;
+    }
+
+    case "union":
+      // Valid if any option accepts the value
+      for (const option of schema.options) {
+        const optionErrors: Array<[string, string]> = [];
+        check(value, option, path, optionErrors);
+        if (optionErrors.length === 0) {
+          return;
+        }
+      }
+      errors.push([
+        path,
+        `expected ${schema.description}, got ${describe(value)}`,
+      ]);
+      return;
+  }
+}
+
+// Validate one stream definition
+export function validateStream(
+  name: string,
+  config: unknown
+): ValidationError[] {
+  const errors: Array<[string, string]> = [];
+  check(config, STREAM, "", errors);
+  return errors.map(([path, message]) => ({ stream: name, path, message }));
+}
+
+// Validate all stream definitions, returning every error
+export function validateStreams(
+  streams: Record<string, unknown>
+): ValidationError[] {
+  return Object.entries(streams).flatMap(([name, config]) =>
+    validateStream(name, config)
+  );
+}
+
+// Format an error for printing, e.g.
+// ingest_email: input.http_server.timeout: expected a duration like "5s", got "5"
+export function formatValidationError(error: ValidationError): string {
+  return `${error.stream}: ${error.path || "(root)"}: ${error.message}`;
+}
@@ -0,0 +1,322 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fetchToolsTree, parseToolsRoot } from "./source.ts";
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+
+// Keep fetched trees inside each test's working directory
+const stateDir = ".bento-sync";
+
+let work: string;
+let tarball: Uint8Array;
+let tarballRequests = 0;
+let server: ReturnType<typeof Bun.serve>;
+
+// A GitHub API stand-in serving one repository with one commit
+beforeAll(async () => {
+  work = await mkdtemp(join(tmpdir(), "bento-source-"));
+
+  // GitHub tarballs have a single <owner>-<repo>-<sha> top-level directory
+  const repo = join(work, "repo", "owner-tools-0123456");
+  await mkdir(join(repo, "tools", "lib"), { recursive: true });
+  await Bun.write(
+    join(repo, "tools", "index.ts"),
+    'export { upper } from "./lib/upper.ts";\n'
+  );
+  await Bun.write(
+    join(repo, "tools", "lib", "upper.ts"),
+    "export const upper = (email: { text: string }) => email.text.toUpperCase();\n"
+  );
+  const tar = Bun.spawnSync(["tar", "-czf", "-", "owner-tools-0123456"], {
+    cwd: join(work, "repo"),
+  });
+  tarball = tar.stdout;
+
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const path = new URL(request.url).pathname;
+      if (path === "/repos/owner/tools/commits/main") {
+        return new Response(COMMIT);
+      }
+      // A private repository, only visible with the token
+      if (path === "/repos/owner/private/commits/HEAD") {
+        const authorization = request.headers.get("Authorization");
+        if (authorization === "Bearer good-token") {
+          return new Response(COMMIT);
+        }
+        return new Response("Bad credentials", {
+          status: authorization ? 401 : 404,
+        });
+      }
+      if (path === `/repos/owner/tools/tarball/${COMMIT}`) {
+        tarballRequests++;
+        return new Response(tarball);
+      }
+      return new Response("Not Found", { status: 404 });
+    },
+  });
+});
+
+afterAll(async () => {
+  server.stop(true);
+  await rm(work, { recursive: true, force: true });
+});
+
+describe("parseToolsRoot", () => {
+  test("splits owner, repo, ref and path of GitHub URLs", () => {
+    expect(
+      parseToolsRoot("https://github.com/owner/tools/main/tools/")
+    ).toEqual({
+      kind: "github",
+      owner: "owner",
+      repo: "tools",
+      ref: "main",
+      path: "tools",
+    });
+    expect(parseToolsRoot("https://github.com/owner/tools")).toEqual({
+      kind: "github",
+      owner: "owner",
+      repo: "tools",
+      ref: "",
+      path: "",
+    });
+  });
+
+  test("accepts git URLs with an optional ref and path", () => {
+    expect(
+      parseToolsRoot("https://gitlab.com/team/tools.git#v1.2.0:bentotools/")
+    ).toEqual({
+      kind: "git",
+      url: "https://gitlab.com/team/tools.git",
+      ref: "v1.2.0",
+      path: "bentotools",
+    });
+    expect(parseToolsRoot("git@github.com:owner/tools.git")).toEqual({
+      kind: "git",
+      url: "git@github.com:owner/tools.git",
+      ref: "",
+      path: "",
+    });
+    expect(parseToolsRoot("file:///srv/tools#main")).toEqual({
+      kind: "git",
+      url: "file:///srv/tools",
+      ref: "main",
+      path: "",
+    });
+  });
+
+  test("uses file:// URLs without a ref as local directories", () => {
+    expect(parseToolsRoot("file:///srv/my%20tools")).toEqual({
+      kind: "file",
+      dir: "/srv/my tools",
+    });
+  });
+
+  test("rejects other URLs", () => {
+    expect(() => parseToolsRoot("https://gitlab.com/owner/tools")).toThrow(
+      "Invalid TOOLS_ROOT_GITHUB format"
+    );
+  });
+});
+
+describe("fetchToolsTree", () => {
+  test("downloads the tree at the resolved commit and reuses it", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const options = { apiUrl: server.url.origin, cwd, stateDir };
+    const root = "https://github.com/owner/tools/main/tools";
+
+    const tree = await fetchToolsTree(root, options);
+    expect(tree).toEqual({
+      dir: join(cwd, ".bento-sync", "sources", COMMIT, "tools"),
+      commit: COMMIT,
+    });
+    const tools = await import(join(tree.dir, "index.ts"));
+    expect(tools.upper({ text: "hi" })).toBe("HI");
+
+    await fetchToolsTree(root, options);
+    expect(tarballRequests).toBe(1);
+    expect(await readdir(join(cwd, ".bento-sync", "sources"))).toEqual([
+      COMMIT,
+    ]);
+  });
+
+  test("fails clearly for unknown refs and missing index.ts", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const options = { apiUrl: server.url.origin, cwd, stateDir };
+
+    await expect(
+      fetchToolsTree("https://github.com/owner/tools/nope", options)
+    ).rejects.toThrow("Could not resolve owner/tools@nope: HTTP 404");
+    await expect(
+      fetchToolsTree("https://github.com/owner/tools/main/missing", options)
+    ).rejects.toThrow(
+      `No index.ts found in missing of owner/tools@main at ${COMMIT}`
+    );
+  });
+
+  test("authenticates with the GitHub token", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const root = "https://github.com/owner/private";
+
+    await expect(
+      fetchToolsTree(root, { apiUrl: server.url.origin, cwd, stateDir })
+    ).rejects.toThrow("if the repository is private, set GITHUB_PAT");
+    await expect(
+      fetchToolsTree(root, {
+        apiUrl: server.url.origin,
+        cwd,
+        stateDir,
+        githubToken: "bad-token",
+      })
+    ).rejects.toThrow("HTTP 401 (GITHUB_PAT was rejected)");
+  });
+
+  test("fetches the configured source even inside a checkout", async () => {
+    const cwd = await mkdtemp(join(work, "local-"));
+    await Bun.write(join(cwd, "index.ts"), "export {};\n");
+    const root = "https://github.com/owner/tools/main/tools";
+    expect(
+      await fetchToolsTree(root, { apiUrl: server.url.origin, cwd, stateDir })
+    ).toEqual({
+      dir: join(cwd, ".bento-sync", "sources", COMMIT, "tools"),
+      commit: COMMIT,
+    });
+  });
+
+  test("uses the working directory if no source is configured", async () => {
+    const cwd = await mkdtemp(join(work, "local-"));
+    await Bun.write(join(cwd, "index.ts"), "export {};\n");
+    expect(await fetchToolsTree("", { cwd, stateDir })).toEqual({
+      dir: cwd,
+      commit: "local",
+    });
+
+    const empty = await mkdtemp(join(work, "empty-"));
+    await expect(fetchToolsTree("", { cwd: empty })).rejects.toThrow(
+      `No index.ts found in ${empty}`
+    );
+  });
+});
+
+describe("fetchToolsTree from git repositories", () => {
+  let repo: string;
+  let tagged: string;
+  let head: string;
+
+  const git = (...args: string[]) => {
+    const result = Bun.spawnSync(["git", ...args], {
+      cwd: repo,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+      },
+    });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.toString());
+    }
+    return result.stdout.toString().trim();
+  };
+
+  // A local repository with a tagged commit and a newer one on top
+  beforeAll(async () => {
+    repo = join(work, "git-repo");
+    await mkdir(join(repo, "tools"), { recursive: true });
+    git("init", "--quiet", "--initial-branch=main");
+    await Bun.write(
+      join(repo, "tools", "index.ts"),
+      'export const version = () => "v1";\n'
+    );
+    git("add", "-A");
+    git("commit", "--quiet", "-m", "v1");
+    git("tag", "v1");
+    tagged = git("rev-parse", "HEAD");
+
+    await Bun.write(
+      join(repo, "tools", "index.ts"),
+      'export const version = () => "v2";\n'
+    );
+    git("commit", "--quiet", "-am", "v2");
+    head = git("rev-parse", "HEAD");
+  });
+
+  test("fetches the tree at a tag", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const tree = await fetchToolsTree(`file://${repo}#v1:tools`, {
+      cwd,
+      stateDir,
+    });
+    expect(tree).toEqual({
+      dir: join(cwd, ".bento-sync", "sources", tagged, "tools"),
+      commit: tagged,
+    });
+    expect(await Bun.file(join(tree.dir, "index.ts")).text()).toContain("v1");
+  });
+
+  test("fetches the tree at an explicit commit SHA", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const tree = await fetchToolsTree(
+      `file://${repo}#${tagged.slice(0, 12)}:tools`,
+      { cwd, stateDir }
+    );
+    expect(tree.commit).toBe(tagged);
+  });
+
+  test("defaults to HEAD and follows new commits", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    const root = `file://${repo}#:tools`;
+    expect((await fetchToolsTree(root, { cwd, stateDir })).commit).toBe(head);
+
+    await Bun.write(
+      join(repo, "tools", "index.ts"),
+      'export const version = () => "v3";\n'
+    );
+    git("commit", "--quiet", "-am", "v3");
+    const latest = git("rev-parse", "HEAD");
+    const tree = await fetchToolsTree(root, { cwd, stateDir });
+    expect(tree.commit).toBe(latest);
+    expect(await readdir(join(cwd, ".bento-sync", "sources"))).toEqual([
+      latest,
+    ]);
+  });
+
+  test("keeps the trees of the given commits", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    await fetchToolsTree(`file://${repo}#v1:tools`, { cwd, stateDir });
+    const tree = await fetchToolsTree(`file://${repo}#:tools`, {
+      cwd,
+      stateDir,
+      keep: [tagged],
+    });
+    expect((await readdir(join(cwd, ".bento-sync", "sources"))).sort()).toEqual(
+      [tagged, tree.commit].sort()
+    );
+  });
+
+  test("fails clearly for unknown refs and repositories", async () => {
+    const cwd = await mkdtemp(join(work, "sync-"));
+    await expect(
+      fetchToolsTree(`file://${repo}#nope:tools`, { cwd, stateDir })
+    ).rejects.toThrow(`Ref "nope" not found in git repository file://${repo}`);
+    await expect(
+      fetchToolsTree(`file://${work}/missing.git`, { cwd, stateDir })
+    ).rejects.toThrow(
+      `Could not fetch git repository file://${work}/missing.git`
+    );
+  });
+
+  test("uses file:// directories in place", async () => {
+    const tree = await fetchToolsTree(`file://${repo}/tools`, { cwd: work });
+    expect(tree.dir).toBe(join(repo, "tools"));
+    expect(tree.commit).toMatch(/^[0-9a-f]{40}$/);
+
+    await expect(
+      fetchToolsTree(`file://${work}/missing`, { cwd: work })
+    ).rejects.toThrow(`Local tools directory ${work}/missing does not exist`);
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Tools Source
+ *
+ * Fetches the whole tools root (index.ts plus everything it imports) so tools
+ * can be split across files like ./tools/pdf.ts. TOOLS_ROOT_GITHUB may be:
+ * - https://github.com/owner/repo[/ref][/path], where ref is a branch, tag or
+ *   commit SHA (default: the default branch). The ref is resolved to a commit
+ *   through the GitHub API and the tarball of that commit is downloaded, with
+ *   GITHUB_PAT for private repositories
+ * - any git URL (ending in .git, ssh://, git://, git@host:... or with a
+ *   #fragment), optionally followed by #ref[:path], e.g.
+ *   https://gitlab.com/team/tools.git#v1.2.0:bentotools. The repository is
+ *   mirrored with git and the tree of the resolved commit is exported
+ * - file:///path/to/tools (without #ref and not ending in .git), a local
+ *   directory used in place
+ *
+ * Fetched trees are extracted to <state dir>/sources/<commit>, and Bento's
+ * script processors import the tools from there (see TOOLS_DIR in sync.ts), so
+ * trees of commits that are still in the deployment history are kept. Without a
+ * configured source (TOOLS_ROOT_GITHUB unset), the tools in the working
+ * directory are used as-is; a configured source is always fetched, even when
+ * running inside a checkout (the /opt/bento-sync clone on the server).
+ *
+ * If a fetched tools root has a package.json, its dependencies are installed
+ * with bun install (--frozen-lockfile when a bun.lock is committed).
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { DEFAULT_STATE_DIR } from "./state.ts";
+
+export type ToolsSource =
+  | { kind: "github"; owner: string; repo: string; ref: string; path: string }
+  | { kind: "git"; url: string; ref: string; path: string }
+  | { kind: "file"; dir: string };
+
+type GitHubSource = Extract<ToolsSource, { kind: "github" }>;
+type GitSource = Extract<ToolsSource, { kind: "git" }>;
+
+export interface ToolsTree {
+  // Directory containing index.ts
+  dir: string;
+  // Commit the tree was fetched at ("local" if unknown)
+  commit: string;
+}
+
+export interface FetchOptions {
+  // GitHub API base URL
+  apiUrl?: string;
+  // Personal access token for private GitHub repositories
+  githubToken?: string;
+  cwd?: string;
+  // Where git mirrors and fetched trees are kept (BENTO_SYNC_STATE_DIR),
+  // relative to cwd
+  stateDir?: string;
+  // Commits whose fetched trees are kept besides the current one, e.g. the
+  // revisions in the deployment history, whose scripts still import them
+  keep?: string[];
+}
+
+export class ToolsSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolsSourceError";
+  }
+}
+
+const FORMATS = [
+  "https://github.com/owner/repo[/ref][/path]",
+  "<git url>[#ref[:path]]",
+  "file:///path/to/tools",
+];
+
+// Parse TOOLS_ROOT_GITHUB into a tools source
+export function parseToolsRoot(toolsRoot: string): ToolsSource {
+  const hash = toolsRoot.indexOf("#");
+  const location = hash === -1 ? toolsRoot : toolsRoot.slice(0, hash);
+  const fragment = hash === -1 ? undefined : toolsRoot.slice(hash + 1);
+
+  if (
+    location.startsWith("file://") &&
+    fragment === undefined &&
+    !/\.git\/?$/.test(location)
+  ) {
+    return { kind: "file", dir: decodeURIComponent(location.slice(7)) };
+  }
+
+  if (
+    fragment !== undefined ||
+    /\.git\/?$/.test(location) ||
+    /^(ssh|git|git\+https?|git\+ssh):\/\//.test(location) ||
+    /^[\w.-]+@[\w.-]+:/.test(location)
+  ) {
+    const [ref, ...path] = (fragment ?? "").split(":");
+    return {
+      kind: "git",
+      url: location.replace(/^git\+/, ""),
+      ref: ref!,
+      path: path.join(":").replace(/^\/+|\/+$/g, ""),
+    };
+  }
+
+  const regex =
+    /^https:\/\/github\.com\/([^/]+)\/([^/]+)(?:\/([^/]+))?(?:\/(.*))?$/;
+  const match = location.match(regex);
+  if (!match) {
+    throw new ToolsSourceError(
+      `Invalid TOOLS_ROOT_GITHUB format. Expected one of: ${FORMATS.join(", ")}`
+    );
+  }
+
+  const [, owner, repo, ref, path] = match;
+
+  return {
+    kind: "github",
+    owner: owner!,
+    repo: repo!,
+    ref: ref || "", // Empty means the default branch
+    path: (path || "").replace(/\/+$/, ""),
+  };
+}
+
+// Describe a source for messages, without any credentials in its URL
+export function describeSource(source: ToolsSource): string {
+  switch (source.kind) {
+    case "github":
+      return `${source.owner}/${source.repo}@${source.ref || "default branch"}`;
+    case "git":
+      return `${source.url.replace(/\/\/[^/@]*@/, "//")}@${
+        source.ref || "default branch"
+      }`;
+    case "file":
+      return source.dir;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Run a command, failing with its output if it exits non-zero
+// The error names the command by its label, so credentials passed as
+// arguments never end up in logs
+async function run(
+  cmd: string[],
+  cwd: string,
+  label?: string
+): Promise<string> {
+  const proc = Bun.spawn(cmd, {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+    // Never wait for a password prompt
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (exitCode !== 0) {
+    throw new ToolsSourceError(
+      `${
+        label ?? cmd.join(" ")
+      } failed (exit code ${exitCode}): ${stderr.trim()}`
+    );
+  }
+  return stdout.trim();
+}
+
+// Extract a tarball into dir
+// Extracts next to the target and renames, so an interrupted fetch never
+// leaves a half-extracted tree behind that would be reused later
+async function extractTarball(
+  tarball: string,
+  dir: string,
+  stripComponents: number
+): Promise<void> {
+  const partial = `${dir}.partial`;
+  await rm(partial, { recursive: true, force: true });
+  await mkdir(partial, { recursive: true });
+  try {
+    await run(
+      ["tar", "-xf", tarball, `--strip-components=${stripComponents}`],
+      partial
+    );
+  } finally {
+    await rm(tarball, { force: true });
+  }
+  await rename(partial, dir);
+}
+
+function githubHeaders(token?: string): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Explain a failed GitHub API request
+function githubError(
+  action: string,
+  what: string,
+  status: number,
+  token?: string
+): ToolsSourceError {
+  let hint = "";
+  if (status === 401) {
+    hint = " (GITHUB_PAT was rejected)";
+  } else if (status === 404) {
+    hint = token
+      ? " (check the ref, and that GITHUB_PAT can read the repository)"
+      : " (if the repository is private, set GITHUB_PAT)";
+  } else if (status === 403 || status === 429) {
+    hint = token
+      ? " (GITHUB_PAT lacks access or is rate limited)"
+      : " (rate limited, set GITHUB_PAT)";
+  }
+  return new ToolsSourceError(
+    `Could not ${action} ${what}: HTTP ${status}${hint}`
+  );
+}
+
+// Resolve a branch, tag, SHA or HEAD to a commit SHA
+export async function resolveCommit(
+  source: GitHubSource,
+  apiUrl: string = "https://api.github.com",
+  token?: string
+): Promise<string> {
+  const ref = source.ref || "HEAD";
+  const response = await fetch(
+    `${apiUrl}/repos/${source.owner}/${source.repo}/commits/${ref}`,
+    {
+      headers: {
+        Accept: "application/vnd.github.sha",
+        ...githubHeaders(token),
+      },
+    }
+  );
+  if (!response.ok) {
+    throw githubError(
+      "resolve",
+      `${source.owner}/${source.repo}@${ref}`,
+      response.status,
+      token
+    );
+  }
+  const commit = (await response.text()).trim();
+  if (!/^[0-9a-f]{40}$/.test(commit)) {
+    throw new ToolsSourceError(
+      `Unexpected commit for ${source.owner}/${
+        source.repo
+      }@${ref}: ${commit.slice(0, 80)}`
+    );
+  }
+  return commit;
+}
+
+// Download and extract the GitHub tarball of a commit into dir
+async function downloadTarball(
+  source: GitHubSource,
+  commit: string,
+  dir: string,
+  apiUrl: string,
+  token?: string
+): Promise<void> {
+  const response = await fetch(
+    `${apiUrl}/repos/${source.owner}/${source.repo}/tarball/${commit}`,
+    { headers: githubHeaders(token) }
+  );
+  if (!response.ok) {
+    throw githubError(
+      "download",
+      `${source.owner}/${source.repo}@${commit}`,
+      response.status,
+      token
+    );
+  }
+
+  const tarball = `${dir}.tar.gz`;
+  await Bun.write(tarball, response);
+  // GitHub tarballs contain a single <owner>-<repo>-<sha> top-level directory
+  await extractTarball(tarball, dir, 1);
+}
+
+// git options that send GITHUB_PAT to github.com, without putting it in the
+// remote URL stored in the mirror
+function gitAuthArgs(url: string, token?: string): string[] {
+  if (!token || !url.startsWith("https://github.com/")) {
+    return [];
+  }
+  const credentials = Buffer.from(`x-access-token:${token}`).toString("base64");
+  return [
+    "-c",
+    `http.https://github.com/.extraheader=Authorization: Basic ${credentials}`,
+  ];
+}
+
+// Fetch (or first clone) a bare mirror of a git repository and resolve the
+// ref to a commit SHA
+async function resolveGitCommit(
+  source: GitSource,
+  mirror: string,
+  token?: string
+): Promise<string> {
+  const auth = gitAuthArgs(source.url, token);
+  try {
+    if (await exists(mirror)) {
+      await run(
+        ["git", ...auth, "fetch", "--prune", "--tags", "origin"],
+        mirror,
+        "git fetch"
+      );
+    } else {
+      await mkdir(mirror, { recursive: true });
+      await run(
+        ["git", ...auth, "clone", "--mirror", "--quiet", source.url, "."],
+        mirror,
+        "git clone"
+      );
+    }
+  } catch (error) {
+    // Clone again next time instead of fetching into a broken mirror
+    if (!(await exists(join(mirror, "HEAD")))) {
+      await rm(mirror, { recursive: true, force: true });
+    }
+    const hint =
+      source.url.includes("github.com") && !token
+        ? " (if the repository is private, set GITHUB_PAT)"
+        : "";
+    throw new ToolsSourceError(
+      `Could not fetch git repository ${describeSource(source)}${hint}: ${
+        (error as Error).message
+      }`
+    );
+  }
+
+  const ref = source.ref || "HEAD";
+  try {
+    return await run(
+      ["git", "rev-parse", "--verify", "--quiet", `${ref}^{commit}`],
+      mirror
+    );
+  } catch {
+    throw new ToolsSourceError(
+      `Ref "${ref}" not found in git repository ${describeSource(source)}`
+    );
+  }
+}
+
+// Export the tree of a commit from a git mirror into dir
+async function exportGitTree(
+  mirror: string,
+  commit: string,
+  dir: string
+): Promise<void> {
+  const tarball = `${dir}.tar`;
+  await run(
+    ["git", "archive", "--format=tar", `--output=${tarball}`, commit],
+    mirror
+  );
+  await extractTarball(tarball, dir, 0);
+}
+
+// Commit of a local directory, "local" if it is not a git checkout
+async function localCommit(dir: string): Promise<string> {
+  try {
+    return await run(["git", "rev-parse", "HEAD"], dir);
+  } catch {
+    return "local";
+  }
+}
+
+// Install the dependencies declared in the tools root's package.json
+export async function installDependencies(dir: string): Promise<void> {
+  if (!(await Bun.file(join(dir, "package.json")).exists())) {
+    return;
+  }
+  const frozen =
+    (await Bun.file(join(dir, "bun.lock")).exists()) ||
+    (await Bun.file(join(dir, "bun.lockb")).exists());
+  console.log(`📦 Installing tools dependencies in ${dir}...`);
+  await run(["bun", "install", ...(frozen ? ["--frozen-lockfile"] : [])], dir);
+}
+
+// Fetch the tools tree described by TOOLS_ROOT_GITHUB, or use the working
+// directory if it is empty
+export async function fetchToolsTree(
+  toolsRoot: string,
+  options: FetchOptions = {}
+): Promise<ToolsTree> {
+  const cwd = options.cwd ?? process.cwd();
+  const source: ToolsSource = toolsRoot
+    ? parseToolsRoot(toolsRoot)
+    : { kind: "file", dir: cwd };
+
+  if (source.kind === "file") {
+    const dir = resolve(cwd, source.dir);
+    if (!(await exists(dir))) {
+      throw new ToolsSourceError(`Local tools directory ${dir} does not exist`);
+    }
+    if (!(await Bun.file(join(dir, "index.ts")).exists())) {
+      throw new ToolsSourceError(`No index.ts found in ${dir}`);
+    }
+    console.log(`📥 Using local tools from ${dir}...`);
+    return { dir, commit: await localCommit(dir) };
+  }
+
+  const apiUrl = options.apiUrl ?? "https://api.github.com";
+  const state = resolve(cwd, options.stateDir ?? DEFAULT_STATE_DIR);
+  console.log(`📡 Resolving ${describeSource(source)}...`);
+
+  let commit: string;
+  let fetchTree: (dir: string) => Promise<void>;
+  if (source.kind === "github") {
+    commit = await resolveCommit(source, apiUrl, options.githubToken);
+    fetchTree = (dir) =>
+      downloadTarball(source, commit, dir, apiUrl, options.githubToken);
+  } else {
+    // One mirror per repository URL
+    const mirror = join(
+      state,
+      "git",
+      createHash("sha256").update(source.url).digest("hex").slice(0, 16)
+    );
+    commit = await resolveGitCommit(source, mirror, options.githubToken);
+    fetchTree = (dir) => exportGitTree(mirror, commit, dir);
+  }
+
+  // Extracted trees only appear once complete, so an existing one is reused
+  const sourcesDir = join(state, "sources");
+  const checkout = join(sourcesDir, commit);
+  if (await exists(checkout)) {
+    console.log(`📥 Using cached tools at ${commit}`);
+  } else {
+    console.log(`📥 Fetching tools at ${commit}...`);
+    await mkdir(sourcesDir, { recursive: true });
+    await fetchTree(checkout);
+  }
+
+  // Only the current commit and the ones to keep are kept
+  const keep = new Set([commit, ...(options.keep ?? [])]);
+  for (const entry of await readdir(sourcesDir)) {
+    if (!keep.has(entry)) {
+      await rm(join(sourcesDir, entry), { recursive: true, force: true });
+    }
+  }
+
+  const dir = source.path ? join(checkout, source.path) : checkout;
+  if (!(await Bun.file(join(dir, "index.ts")).exists())) {
+    throw new ToolsSourceError(
+      `No index.ts found in ${
+        source.path || "the repository root"
+      } of ${describeSource(source)} at ${commit}`
+    );
+  }
+
+  await installDependencies(dir);
+  return { dir, commit };
+}
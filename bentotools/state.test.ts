@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkImports } from "./imports.ts";
+import { fetchToolsTree } from "./source.ts";
+import {
+  hashConfig,
+  hashFiles,
+  isPinned,
+  loadState,
+  saveState,
+  type SyncState,
+} from "./state.ts";
+
+describe("hashConfig", () => {
+  test("ignores key order", () => {
+    expect(hashConfig({ input: { a: 1, b: [1, { c: 2, d: 3 }] } })).toBe(
+      hashConfig({ input: { b: [1, { d: 3, c: 2 }], a: 1 } })
+    );
+  });
+
+  test("changes with any value", () => {
+    const config = { input: { s2: { basin: "a" } }, output: { drop: {} } };
+    expect(hashConfig(config)).not.toBe(
+      hashConfig({ ...config, input: { s2: { basin: "b" } } })
+    );
+    expect(hashConfig([1, 2])).not.toBe(hashConfig([2, 1]));
+    expect(hashConfig({ a: "1" })).not.toBe(hashConfig({ a: 1 }));
+  });
+});
+
+describe("loadState", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bento-state-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("fills in fields missing from older state files", async () => {
+    await Bun.write(
+      join(dir, "state.json"),
+      JSON.stringify({ managedStreams: ["a"] })
+    );
+    expect(await loadState(dir)).toEqual({
+      managedStreams: ["a"],
+      deployed: {},
+      revision: undefined,
+      source: undefined,
+      pinned: undefined,
+    });
+  });
+
+  test("round-trips deployments", async () => {
+    const state = {
+      managedStreams: ["a"],
+      deployed: {
+        a: {
+          hash: hashConfig({ a: 1 }),
+          commit: "0123456789abcdef0123456789abcdef01234567",
+          deployedAt: "2026-01-01T00:00:00.000Z",
+        },
+      },
+      revision: "0123456789abcdef0123456789abcdef01234567",
+    };
+    await saveState(dir, state);
+    expect(await loadState(dir)).toEqual(state);
+  });
+});
+
+describe("isPinned", () => {
+  let tools: string;
+
+  beforeAll(async () => {
+    tools = await mkdtemp(join(tmpdir(), "bento-tools-"));
+  });
+
+  afterAll(async () => {
+    await rm(tools, { recursive: true, force: true });
+  });
+
+  // The tools tree is not a git checkout, so its commit never changes
+  async function sourceHash(): Promise<string> {
+    const tree = await fetchToolsTree("", { cwd: tools });
+    expect(tree.commit).toBe("local");
+    return hashFiles(tree.dir, (await checkImports(tree.dir)).files);
+  }
+
+  test("holds back what a rollback replaced until the tools change", async () => {
+    await Bun.write(
+      join(tools, "index.ts"),
+      'export { shout } from "./shout.ts";\n'
+    );
+    await Bun.write(
+      join(tools, "shout.ts"),
+      "export const shout = () => { throw new Error(); };\n"
+    );
+    const streams = { a: { input: { http_server: { path: "/a" } } } };
+    const hash = hashConfig(streams);
+    const state: SyncState = {
+      managedStreams: ["a"],
+      deployed: {},
+      pinned: { hash, source: await sourceHash(), revision: 1 },
+    };
+
+    expect(isPinned(state, hash, await sourceHash())).toBe(true);
+    expect(isPinned(state, hashConfig({}), await sourceHash())).toBe(false);
+
+    await Bun.write(
+      join(tools, "shout.ts"),
+      'export const shout = () => "HI";\n'
+    );
+    expect(isPinned(state, hash, await sourceHash())).toBe(false);
+    expect(isPinned({ ...state, pinned: undefined }, hash, "")).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Bento Sync State
+ *
+ * Bento streams carry no ownership metadata, so sync.ts records the streams it
+ * manages in a local state file. Only streams recorded here are ever deleted,
+ * streams created by other means are left untouched.
+ *
+ * It also records what was deployed: the hash of each stream's substituted
+ * config and the tools commit it came from. bento-sync.timer runs sync.ts every
+ * 5 minutes, and re-PUTting a stream restarts its S2 consumers, so streams
+ * whose hash did not change are skipped.
+ *
+ * A rollback pins what it replaced by the hash of the stream configs and of
+ * the tools files rather than by commit: trees that are not a git checkout
+ * (e.g. /opt/bento-sync after setup.sh moved a subdirectory out of its clone)
+ * all have the commit "local".
+ *
+ * The state lives in the BENTO_SYNC_STATE_DIR directory (see config.ts; by
+ * default /var/lib/bento-sync, outside the /opt/bento-sync checkout that
+ * setup.sh deletes and clones again). The GitHub workflow runs the sync on the
+ * server too, so every sync shares this state.
+ */
+
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+
+export interface DeployedStream {
+  // Hash of the substituted stream config (see hashConfig)
+  hash: string;
+  // Tools commit the config was compiled from
+  commit: string;
+  // ISO timestamp of the deployment
+  deployedAt: string;
+}
+
+// What a rollback replaced, held back from the sync timer
+export interface RollbackPin {
+  // Hash of all substituted stream configs that were live (see hashConfig)
+  hash: string;
+  // Hash of the tools files they came from (see hashFiles)
+  source: string;
+  // Revision that was rolled back to
+  revision: number;
+}
+
+export interface SyncState {
+  managedStreams: string[];
+  deployed: Record<string, DeployedStream>;
+  // Tools commit of the last sync in which every stream was deployed
+  revision?: string;
+  // Hash of the tools files of that sync
+  source?: string;
+  // Set by a rollback; sync.ts skips the replaced streams and tools until
+  // either changes, --force is given or `sync.ts unpin` is run
+  pinned?: RollbackPin;
+}
+
+export const DEFAULT_STATE_DIR = "/var/lib/bento-sync";
+
+function stateFile(dir: string): string {
+  return join(dir, "state.json");
+}
+
+// Load the sync state from a state directory, returning an empty state if
+// none was saved yet
+export async function loadState(dir: string): Promise<SyncState> {
+  const file = Bun.file(stateFile(dir));
+  if (!(await file.exists())) {
+    return { managedStreams: [], deployed: {} };
+  }
+  const state = (await file.json()) as Partial<SyncState>;
+  return {
+    managedStreams: state.managedStreams ?? [],
+    deployed: state.deployed ?? {},
+    revision: state.revision,
+    source: state.source,
+    pinned: state.pinned,
+  };
+}
+
+// Persist the sync state (Bun.write creates the directory if needed)
+export async function saveState(dir: string, state: SyncState): Promise<void> {
+  await Bun.write(stateFile(dir), JSON.stringify(state, null, 2) + "\n");
+}
+
+// JSON with object keys sorted, so equal configs always serialize the same
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, child]) => `${JSON.stringify(key)}:${canonicalJSON(child)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// SHA-256 of a stream config, independent of key order
+export function hashConfig(config: unknown): string {
+  return createHash("sha256").update(canonicalJSON(config)).digest("hex");
+}
+
+// SHA-256 of the given files of a tools tree (paths relative to dir, e.g. the
+// files checkImports found), so trees that are not a git checkout (whose
+// commit is always "local") can be told apart too
+export async function hashFiles(dir: string, files: string[]): Promise<string> {
+  const hash = createHash("sha256");
+  for (const file of [...files].sort()) {
+    hash.update(`${file}\0`);
+    hash.update(await Bun.file(join(dir, file)).bytes());
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+// Whether syncing these streams (see hashConfig) from these tools files (see
+// hashFiles) would deploy again what a rollback replaced
+export function isPinned(
+  state: SyncState,
+  hash: string,
+  source: string
+): boolean {
+  return state.pinned?.hash === hash && state.pinned.source === source;
+}
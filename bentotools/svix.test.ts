@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import {
+  signWebhook,
+  svixHeaders,
+  verifyWebhook,
+  WebhookVerificationError,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from "./svix.ts";
+
+const SECRET = `whsec_${Buffer.from("test-signing-key").toString("base64")}`;
+const NOW = Date.UTC(2025, 10, 29, 12, 0, 0);
+const TIMESTAMP = String(Math.floor(NOW / 1000));
+
+const payload = JSON.stringify({
+  type: "email.received",
+  created_at: "2025-11-29T12:00:00.000Z",
+  data: { to: ["reverser@example.com"], text: "Hello" },
+});
+
+function headersFor(body: string, timestamp: string = TIMESTAMP) {
+  return {
+    id: "msg_test",
+    timestamp,
+    signature: `v1,${signWebhook(body, "msg_test", timestamp, SECRET)}`,
+  };
+}
+
+describe("verifyWebhook", () => {
+  test("accepts a validly signed payload", () => {
+    expect(verifyWebhook(payload, headersFor(payload), SECRET, NOW)).toEqual(
+      JSON.parse(payload)
+    );
+  });
+
+  test("accepts any matching signature from a rotated list", () => {
+    const headers = headersFor(payload);
+    headers.signature = `v1,bm90LXRoZS1zaWduYXR1cmU= ${headers.signature}`;
+    expect(verifyWebhook(payload, headers, SECRET, NOW)).toEqual(
+      JSON.parse(payload)
+    );
+  });
+
+  test("rejects a tampered payload", () => {
+    const tampered = payload.replace("Hello", "Injected");
+    expect(() =>
+      verifyWebhook(tampered, headersFor(payload), SECRET, NOW)
+    ).toThrow(WebhookVerificationError);
+  });
+
+  test("rejects a signature made with another secret", () => {
+    const otherSecret = `whsec_${Buffer.from("other-key").toString("base64")}`;
+    const headers = {
+      ...headersFor(payload),
+      signature: `v1,${signWebhook(payload, "msg_test", TIMESTAMP, otherSecret)}`,
+    };
+    expect(() => verifyWebhook(payload, headers, SECRET, NOW)).toThrow(
+      "No matching webhook signature found"
+    );
+  });
+
+  test("rejects a replayed payload with a stale timestamp", () => {
+    const stale = String(
+      Math.floor(NOW / 1000) - WEBHOOK_TOLERANCE_SECONDS - 1
+    );
+    expect(() =>
+      verifyWebhook(payload, headersFor(payload, stale), SECRET, NOW)
+    ).toThrow("Webhook timestamp is outside the tolerance window");
+  });
+
+  test("accepts a replay within the tolerance window", () => {
+    // Svix retries reuse the svix-id; duplicates are dropped downstream
+    const headers = headersFor(payload);
+    expect(verifyWebhook(payload, headers, SECRET, NOW)).toEqual(
+      JSON.parse(payload)
+    );
+    expect(verifyWebhook(payload, headers, SECRET, NOW + 60_000)).toEqual(
+      JSON.parse(payload)
+    );
+  });
+
+  test("rejects missing headers", () => {
+    expect(() =>
+      verifyWebhook(
+        payload,
+        { id: "", timestamp: TIMESTAMP, signature: "" },
+        SECRET,
+        NOW
+      )
+    ).toThrow("Missing Svix signature headers");
+  });
+
+  test("rejects when no secret is configured", () => {
+    expect(() => verifyWebhook(payload, headersFor(payload), "", NOW)).toThrow(
+      "Webhook secret is not configured"
+    );
+  });
+});
+
+describe("svixHeaders", () => {
+  test("reads the headers from metadata in any case", () => {
+    const headers = headersFor(payload);
+    const metadata = {
+      "Svix-Id": headers.id,
+      "SVIX-TIMESTAMP": headers.timestamp,
+      "svix-signature": [headers.signature],
+      "Content-Type": "application/json",
+    };
+    expect(svixHeaders(metadata)).toEqual(headers);
+    expect(verifyWebhook(payload, svixHeaders(metadata), SECRET, NOW)).toEqual(
+      JSON.parse(payload)
+    );
+  });
+
+  test("leaves missing headers empty", () => {
+    expect(svixHeaders({})).toEqual({ id: "", timestamp: "", signature: "" });
+  });
+});
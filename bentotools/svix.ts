@@ -0,0 +1,124 @@
+/**
+ * Svix Webhook Signature Verification
+ *
+ * Resend delivers webhooks through Svix. Every request carries three headers:
+ * - svix-id: unique message id
+ * - svix-timestamp: unix timestamp (seconds) of the delivery attempt
+ * - svix-signature: space-separated list of "v1,<base64 signature>" entries
+ *
+ * The signature is an HMAC-SHA256 over "<id>.<timestamp>.<raw body>", keyed with
+ * the base64-decoded part of the webhook secret (after the "whsec_" prefix).
+ *
+ * Verification is stateless: a delivery replayed within the tolerance window
+ * (including Svix's own retries, which reuse the svix-id) is accepted again.
+ * The email it carries is the same, so transform_email drops it as a duplicate
+ * (see dedup.ts).
+ *
+ * This module is imported by the ingest_email script processor at runtime.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Reject deliveries whose timestamp is further than this from now (replay protection)
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export interface SvixHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+// Pick the Svix headers out of the http_server input's metadata
+// Header names arrive in whatever case the sender (or Go's canonicalization,
+// e.g. "Svix-Id") used, so they are matched case-insensitively
+export function svixHeaders(metadata: Record<string, unknown>): SvixHeaders {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    const text = Array.isArray(value) ? value[0] : value;
+    if (typeof text === "string") {
+      headers[key.toLowerCase()] = text;
+    }
+  }
+  return {
+    id: headers["svix-id"] ?? "",
+    timestamp: headers["svix-timestamp"] ?? "",
+    signature: headers["svix-signature"] ?? "",
+  };
+}
+
+// Decode the signing key from a "whsec_<base64>" secret
+function decodeSecret(secret: string): Buffer {
+  if (!secret) {
+    throw new WebhookVerificationError("Webhook secret is not configured");
+  }
+  return Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+}
+
+// Compute the base64 signature for a payload
+export function signWebhook(
+  payload: string,
+  id: string,
+  timestamp: string,
+  secret: string
+): string {
+  return createHmac("sha256", decodeSecret(secret))
+    .update(`${id}.${timestamp}.${payload}`)
+    .digest("base64");
+}
+
+// Verify a webhook delivery and return the parsed JSON payload
+// Throws WebhookVerificationError if headers are missing, the timestamp is stale
+// or no signature matches
+export function verifyWebhook(
+  payload: string,
+  headers: SvixHeaders,
+  secret: string,
+  now: number = Date.now()
+): unknown {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    throw new WebhookVerificationError("Missing Svix signature headers");
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    throw new WebhookVerificationError("Invalid svix-timestamp header");
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (Math.abs(nowSeconds - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError(
+      "Webhook timestamp is outside the tolerance window"
+    );
+  }
+
+  const expected = Buffer.from(
+    signWebhook(payload, headers.id, headers.timestamp, secret),
+    "base64"
+  );
+
+  // Svix may send several signatures (e.g. during secret rotation)
+  const matches = headers.signature.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) {
+      return false;
+    }
+    const candidate = Buffer.from(signature, "base64");
+    return (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    );
+  });
+
+  if (!matches) {
+    throw new WebhookVerificationError("No matching webhook signature found");
+  }
+
+  return JSON.parse(payload);
+}
@@ -3,290 +3,492 @@
  * Bento Streams Sync Script (TypeScript)
  *
  * This script compiles TypeScript exports and syncs them to Bento via HTTP API.
- * After syncing, it runs all tests defined in $TESTS array.
+ * The whole tools tree is fetched (see source.ts), so index.ts may import other
+ * files and the packages declared in its package.json.
+ * Streams that were previously synced but are no longer exported are deleted.
+ * All changes are applied as one transaction: if any stream fails, every
+ * stream is restored to its previous config (see transaction.ts).
+ * After syncing, it runs all tests defined in $TESTS array end to end: each test
+ * email is sent through Resend and the reply is awaited in the S2 outbox stream.
+ *
+ * Before anything is synced, every stream is validated against the schema of
+ * the Bento components we use (schema.ts); any error aborts the whole sync.
+ *
+ * Streams whose substituted config hash matches the one recorded at their last
+ * deployment (see state.ts) are not re-PUT, since that restarts their S2
+ * consumers; --force re-PUTs every stream anyway.
+ *
+ * Each sync that applies every stream is saved as a numbered revision (see
+ * history.ts):
+ *   bun sync.ts history            List the deployed revisions
+ *   bun sync.ts rollback <rev>     Re-apply a previous revision
+ *   bun sync.ts unpin              Let the timer deploy what a rollback
+ *                                  replaced again
+ *
+ * With --dry-run, nothing is synced: the compiled streams are compared with the
+ * live Bento configs and a per-stream diff is printed. The script exits with
+ * code 2 if any changes are pending, so CI can gate on it; like a sync, it
+ * reports nothing pending while a rollback pins what it would deploy.
  *
  * IMPORTANT: Bento API does NOT perform environment variable interpolation.
- * All variable substitution must be done BEFORE sending configs to the API.
+ * All variable substitution must be done BEFORE sending configs to the API
+ * (see variables.ts). Any ${VAR} that cannot be resolved fails the sync.
+ * ${TOOLS_DIR} is the directory of the fetched tools tree, which script code
+ * imports index.ts and the tool runtime from.
  */
 
-import { StreamStore } from "@s2-dev/streamstore";
-
-interface BentoStreamConfig {
-  input: any;
-  pipeline?: any;
-  output: any;
-}
-
-interface TestCase {
-  stream: string;
-  input: string;
-  expected: string;
-}
-
-interface ParsedToolsRoot {
-  owner: string;
-  repo: string;
-  branch: string;
-  path: string;
-}
+import { join } from "node:path";
+import {
+  compileFile,
+  printCompileResult,
+  withS2Endpoint,
+  type BentoStreamConfig,
+} from "./compile.ts";
+import {
+  ConfigError,
+  formatConfigReport,
+  isSecretVariable,
+  loadConfig,
+  type Config,
+  type ConfigName,
+} from "./config.ts";
+import {
+  diffConfigs,
+  diffText,
+  formatChange,
+  maskSecrets,
+  withoutDefaults,
+} from "./diff.ts";
+import {
+  formatRevision,
+  listRevisions,
+  loadRevision,
+  saveRevision,
+} from "./history.ts";
+import { checkImports, checkScriptImports } from "./imports.ts";
+import { createS2Client, type S2Client } from "./s2-client.ts";
+import { TEST_TOKEN_HEADER } from "./runtime.ts";
+import { formatValidationError, validateStreams } from "./schema.ts";
+import { fetchToolsTree, ToolsSourceError, type ToolsTree } from "./source.ts";
+import {
+  hashConfig,
+  hashFiles,
+  isPinned,
+  loadState,
+  saveState,
+  type RollbackPin,
+} from "./state.ts";
+import {
+  applyChanges,
+  SnapshotError,
+  snapshotChanges,
+  type StreamChange,
+  type StreamsApi,
+} from "./transaction.ts";
+import {
+  formatUnresolved,
+  substitutedVariables,
+  substituteStreams,
+} from "./variables.ts";
+import { toYAML } from "./yaml.ts";
+import type { TestCase } from "./testing.ts";
+
+// Resolved once at startup by main(), see config.ts
+let settings: Config;
 
-// Parse TOOLS_ROOT_GITHUB to extract repo, branch, and path
-function parseToolsRoot(toolsRoot: string): ParsedToolsRoot {
-  const regex =
-    /^https:\/\/github\.com\/([^/]+)\/([^/]+)(?:\/([^/]+))?(?:\/(.*))?$/;
-  const match = toolsRoot.match(regex);
-
-  if (!match) {
-    throw new Error(
-      `Invalid TOOLS_ROOT_GITHUB format. Expected: https://github.com/owner/repo[/branch][/path]`
-    );
-  }
-
-  const [, owner, repo, branch, path] = match;
-
-  return {
-    owner,
-    repo,
-    branch: branch || "", // Will be resolved later if empty
-    path: path || "",
-  };
-}
+// Sync a single stream to Bento via HTTP API
+// Streams are validated beforehand, so a 400 here is Bento rejecting the config
+// for reasons the schema does not cover (e.g. bloblang syntax)
+async function syncStream(
+  name: string,
+  config: BentoStreamConfig,
+  exists: boolean
+): Promise<boolean> {
+  const apiUrl = settings.BENTO_API_URL;
+  console.log(`  → ${exists ? "Updating" : "Creating"} stream: ${name}`);
 
-// Get default branch from GitHub API
-async function getDefaultBranch(owner: string, repo: string): Promise<string> {
   try {
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}`
-    );
-    if (!response.ok) {
-      console.warn("⚠ Could not determine default branch, using 'main'");
-      return "main";
-    }
-    const data = await response.json();
-    return data.default_branch || "main";
-  } catch (error) {
-    console.warn("⚠ Could not determine default branch, using 'main'");
-    return "main";
-  }
-}
+    const response = await fetch(`${apiUrl}/streams/${name}`, {
+      method: exists ? "PUT" : "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(config),
+    });
 
-// Fetch index.ts - use local file if available, otherwise fetch from GitHub
-async function fetchIndexTs(parsed: ParsedToolsRoot): Promise<string> {
-  // First, try to use local index.ts if we're in a git repository
-  const localIndexPath = "./index.ts";
-  try {
-    const localFile = Bun.file(localIndexPath);
-    if (await localFile.exists()) {
-      console.log(
-        `📥 Using local index.ts from ${process.cwd()}/${localIndexPath}...`
+    if (response.ok) {
+      console.log(`    ✓ Stream '${name}' synced successfully`);
+      return true;
+    } else {
+      const body = await response.text();
+      console.error(
+        `    ✗ Stream '${name}' sync returned HTTP ${response.status}`
       );
-      return await localFile.text();
+      if (body) {
+        console.error(`    Response: ${body}`);
+      }
+      return false;
     }
   } catch (error) {
-    // Fall through to GitHub fetch
+    console.error(`    ✗ Error syncing stream '${name}':`, error);
+    return false;
   }
+}
 
-  // Fallback: fetch from GitHub
-  let branch = parsed.branch;
+// List the streams currently running in Bento
+async function listStreams(): Promise<string[]> {
+  const apiUrl = settings.BENTO_API_URL;
+  const response = await fetch(`${apiUrl}/streams`);
+  if (!response.ok) {
+    throw new Error(`Failed to list streams: HTTP ${response.status}`);
+  }
+  const streams = (await response.json()) as Record<string, unknown>;
+  return Object.keys(streams);
+}
 
-  // If branch not specified, get default branch
-  if (!branch) {
-    console.log(
-      `📡 Fetching default branch for ${parsed.owner}/${parsed.repo}...`
+// Fetch the live config of a stream, or null if it does not exist
+async function getStreamConfig(
+  name: string
+): Promise<BentoStreamConfig | null> {
+  const apiUrl = settings.BENTO_API_URL;
+  const response = await fetch(`${apiUrl}/streams/${name}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch stream '${name}': HTTP ${response.status}`
     );
-    branch = await getDefaultBranch(parsed.owner, parsed.repo);
   }
+  const data = (await response.json()) as { config: BentoStreamConfig };
+  return data.config;
+}
 
-  // Construct raw GitHub URL
-  const pathPart = parsed.path ? `${parsed.path}/`.replace(/\/+$/, "") : "";
-  const rawUrl = `https://raw.githubusercontent.com/${parsed.owner}/${
-    parsed.repo
-  }/${branch}${pathPart ? `/${pathPart}` : ""}/index.ts`;
+// Delete a single stream from Bento via HTTP API
+async function deleteStream(name: string): Promise<boolean> {
+  const apiUrl = settings.BENTO_API_URL;
+  console.log(`  → Deleting stream: ${name}`);
 
-  console.log(`📥 Fetching index.ts from ${rawUrl}...`);
+  try {
+    const response = await fetch(`${apiUrl}/streams/${name}`, {
+      method: "DELETE",
+    });
 
-  const response = await fetch(rawUrl);
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch index.ts from ${rawUrl}: ${response.statusText}`
+    // 404 means the stream is already gone
+    if (response.ok || response.status === 404) {
+      console.log(`    ✓ Stream '${name}' deleted`);
+      return true;
+    }
+
+    const body = await response.text();
+    console.error(
+      `    ✗ Stream '${name}' delete returned HTTP ${response.status}`
     );
+    if (body) {
+      console.error(`    Response: ${body}`);
+    }
+    return false;
+  } catch (error) {
+    console.error(`    ✗ Error deleting stream '${name}':`, error);
+    return false;
   }
+}
 
-  return await response.text();
+// Find managed streams that are no longer defined in index.ts
+// Only streams recorded as managed in the sync state are considered, so
+// streams created outside of sync.ts are never touched
+async function findStaleStreams(current: string[]): Promise<string[]> {
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  const live = await listStreams();
+  return live.filter(
+    (name) => state.managedStreams.includes(name) && !current.includes(name)
+  );
 }
 
-// Compile TypeScript exports to get stream configurations and tests
-async function compileStreams(indexTsCode: string): Promise<{
-  streams: Record<string, BentoStreamConfig>;
-  tests: TestCase[];
-}> {
-  // Create a temporary file and import it as a module
-  // Use a unique filename to avoid conflicts
-  const tempFile = `/tmp/bento-sync-index-${Date.now()}-${Math.random()
-    .toString(36)
-    .substring(7)}.ts`;
-  await Bun.write(tempFile, indexTsCode);
-
-  // Import the module (it's guaranteed to be a proper module)
-  const module = await import(tempFile);
-
-  // Clean up temp file
-  try {
-    await Bun.file(tempFile).unlink();
-  } catch {
-    // Ignore cleanup errors
-  }
+// Values to mask in output: those of every variable substituted into the
+// streams, except the configuration that is not secret and TOOLS_DIR
+function maskedValues(
+  streams: Record<string, BentoStreamConfig>,
+  vars: Record<string, string | undefined>
+): string[] {
+  return substitutedVariables(streams, vars)
+    .filter((name) => name !== "TOOLS_DIR" && isSecretVariable(name))
+    .map((name) => vars[name]!);
+}
 
-  const streams: Record<string, BentoStreamConfig> = {};
-  let tests: TestCase[] = [];
+// Print what a sync would change without touching Bento
+// Returns true if any stream would be created, updated or deleted
+async function dryRun(
+  streams: Record<string, BentoStreamConfig>,
+  secrets: string[]
+): Promise<boolean> {
+  console.log(`📋 Dry run: comparing compiled streams with Bento...`);
 
-  for (const [key, value] of Object.entries(module)) {
-    // Skip default export and private exports
-    if (key === "default" || key.startsWith("_")) {
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  const counts = { create: 0, update: 0, unchanged: 0, delete: 0 };
+  for (const [name, config] of Object.entries(streams)) {
+    const live = await getStreamConfig(name);
+    if (!live) {
+      counts.create++;
+      console.log(`  + ${name} (create)`);
+      const yaml = toYAML(maskSecrets(config, secrets)).trimEnd();
+      for (const line of yaml.split("\n")) {
+        console.log(`      ${line}`);
+      }
       continue;
     }
 
-    // Extract $TESTS array
-    if (key === "$TESTS" && Array.isArray(value)) {
-      tests = value as TestCase[];
-      console.log(`✓ Found ${tests.length} test case(s)`);
+    // A stream deployed with the same hash is unchanged (applyStreams skips
+    // it). Bento's GET returns the config with defaults filled in, so without
+    // a recorded hash it is compared on the fields the compiled config sets
+    const changes = diffConfigs(withoutDefaults(live, config), config);
+    if (
+      state.deployed[name]?.hash === hashConfig(config) ||
+      (!state.deployed[name] && changes.length === 0)
+    ) {
+      counts.unchanged++;
+      console.log(`  = ${name} (unchanged)`);
       continue;
     }
 
-    // Skip functions (these are tool functions, not stream definitions)
-    if (typeof value === "function") {
-      console.log(`✓ Found tool function: ${key}`);
-      continue;
+    counts.update++;
+    console.log(`  ~ ${name} (update)`);
+    if (changes.length === 0) {
+      console.log(`      (only fields Bento fills in with defaults differ)`);
     }
-
-    // This is a stream definition
-    if (
-      value &&
-      typeof value === "object" &&
-      "input" in value &&
-      "output" in value
-    ) {
-      streams[key] = value as BentoStreamConfig;
-      console.log(`✓ Found stream definition: ${key}`);
+    for (const change of changes) {
+      for (const line of formatChange(change, secrets)) {
+        console.log(`      ${line}`);
+      }
     }
   }
 
-  return { streams, tests };
+  for (const name of await findStaleStreams(Object.keys(streams))) {
+    counts.delete++;
+    console.log(`  - ${name} (delete)`);
+  }
+
+  console.log(
+    `\n📋 Dry run summary: ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged, ${counts.delete} to delete`
+  );
+  return counts.create + counts.update + counts.delete > 0;
 }
 
-// Substitute environment variables in stream configs
-// IMPORTANT: Bento API does NOT perform interpolation, so we must do it here
-function substituteVariables(config: any, vars: Record<string, string>): any {
-  if (typeof config === "string") {
-    // Substitute variables in strings
-    let result = config;
-    for (const [key, value] of Object.entries(vars)) {
-      result = result.replace(new RegExp(`\\$\\{${key}\\}`, "g"), value);
+// Resolve and validate the configuration once, before doing anything
+// Commands that only need some variables pass their names as `needed`
+function loadSettings(needed?: readonly ConfigName[]): void {
+  try {
+    settings = loadConfig(process.env, needed);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
     }
-    return result;
-  }
-
-  if (Array.isArray(config)) {
-    return config.map((item) => substituteVariables(item, vars));
+    console.error(`❌ Error: ${error.message}`);
+    console.error(formatConfigReport(error.entries).join("\n"));
+    process.exit(1);
   }
+}
 
-  if (config && typeof config === "object") {
-    const result: any = {};
-    for (const [key, value] of Object.entries(config)) {
-      result[key] = substituteVariables(value, vars);
+// Exit if the Bento API is not accessible
+async function checkBento(): Promise<void> {
+  const apiUrl = settings.BENTO_API_URL;
+  console.log(`🔍 Checking Bento API at ${apiUrl}...`);
+  try {
+    const response = await fetch(`${apiUrl}/ready`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      console.error(
+        `❌ Error: Bento API at ${apiUrl} returned HTTP ${response.status}`
+      );
+      process.exit(1);
     }
-    return result;
+  } catch (error) {
+    console.error(
+      `❌ Error: Bento API at ${apiUrl} is not accessible: ${error}`
+    );
+    process.exit(1);
   }
-
-  return config;
 }
 
-// Sync a single stream to Bento via HTTP API
-async function syncStream(
-  name: string,
-  config: BentoStreamConfig
+// The Bento streams API, for transactions
+const bentoApi: StreamsApi = {
+  get: getStreamConfig,
+  create: (name, config) => syncStream(name, config, false),
+  update: (name, config) => syncStream(name, config, true),
+  delete: deleteStream,
+};
+
+// Apply streams to Bento as one transaction (see transaction.ts): streams
+// that are live with the same config hash are skipped unless force is set,
+// and managed streams that are no longer defined are deleted. If any change
+// fails, all of them are reverted. Returns true if everything was applied
+async function applyStreams(
+  streams: Record<string, BentoStreamConfig>,
+  commit: string,
+  options: { force?: boolean; source?: string; pinned?: RollbackPin } = {}
 ): Promise<boolean> {
-  const apiUrl = process.env.BENTO_API_URL || "http://localhost:4195";
-  console.log(`  → Syncing stream: ${name}`);
+  console.log(`📤 Syncing streams to Bento...`);
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  const liveStreams = new Set(await listStreams());
 
-  // Try POST first (create), then PUT (update) if that fails
-  try {
-    let response = await fetch(`${apiUrl}/streams/${name}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(config),
+  const changes: StreamChange[] = [];
+  const hashes: Record<string, string> = {};
+  for (const [name, config] of Object.entries(streams)) {
+    const hash = hashConfig(config);
+    const previous = state.deployed[name];
+    if (!options.force && liveStreams.has(name) && previous?.hash === hash) {
+      console.log(
+        `  = Unchanged stream: ${name} (deployed at ${previous.commit.slice(
+          0,
+          12
+        )})`
+      );
+      continue;
+    }
+    hashes[name] = hash;
+    changes.push({
+      name,
+      action: liveStreams.has(name) ? "update" : "create",
+      config,
     });
+  }
 
-    // If POST fails with 400 (bad request - stream exists), 409 (conflict), or 404, try PUT (update)
-    if (
-      response.status === 400 ||
-      response.status === 409 ||
-      response.status === 404
-    ) {
-      const bodyText = await response.text();
-      // Only use PUT if the error indicates the stream already exists
-      if (
-        response.status === 400 &&
-        !bodyText.includes("already exists") &&
-        !bodyText.includes("Stream already exists")
-      ) {
-        // This is a real validation error, not "stream exists"
-        console.error(`    ✗ Stream '${name}' validation error: ${bodyText}`);
-        return false;
-      }
-      response = await fetch(`${apiUrl}/streams/${name}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(config),
-      });
-    }
+  // Only streams recorded as managed are deleted, streams created outside of
+  // sync.ts are never touched
+  for (const name of await findStaleStreams(Object.keys(streams))) {
+    changes.push({ name, action: "delete" });
+  }
 
-    if (response.ok) {
-      console.log(`    ✓ Stream '${name}' synced successfully`);
-      return true;
-    } else {
-      const body = await response.text();
-      console.error(
-        `    ✗ Stream '${name}' sync returned HTTP ${response.status}`
-      );
-      if (body) {
-        console.error(`    Response: ${body}`);
-      }
-      return false;
-    }
+  // Snapshot the live configs before touching anything
+  let snapshotted: StreamChange[];
+  try {
+    snapshotted = await snapshotChanges(changes, bentoApi);
   } catch (error) {
-    console.error(`    ✗ Error syncing stream '${name}':`, error);
+    if (!(error instanceof SnapshotError)) {
+      throw error;
+    }
+    console.error(`❌ Error: ${error.message}, nothing was synced`);
+    return false;
+  }
+
+  const { success, outcomes } = await applyChanges(snapshotted, bentoApi);
+
+  console.log(`\n📋 Stream outcomes:`);
+  for (const name of Object.keys(streams)) {
+    console.log(`  ${name}: ${outcomes[name] ?? "unchanged"}`);
+  }
+  for (const change of snapshotted.filter((c) => c.action === "delete")) {
+    console.log(`  ${change.name} (removed): ${outcomes[change.name]}`);
+  }
+
+  if (!success) {
+    // Created streams may be left over if their revert failed; keeping them
+    // managed lets the next run clean them up
+    const created = snapshotted
+      .filter((change) => change.action === "create")
+      .map((change) => change.name);
+    await saveState(settings.BENTO_SYNC_STATE_DIR, {
+      ...state,
+      managedStreams: [...new Set([...state.managedStreams, ...created])],
+    });
+    const broken = Object.entries(outcomes)
+      .filter(([, outcome]) => outcome === "revert failed")
+      .map(([name]) => name);
+    console.error(
+      broken.length > 0
+        ? `❌ Error: Sync failed and ${
+            broken.length
+          } stream(s) could not be restored: ${broken.join(", ")}`
+        : `❌ Error: Sync failed, all streams were restored to their previous configs`
+    );
     return false;
   }
+
+  // Record what is live now; deployments of deleted streams are forgotten so
+  // a stream that is added back later is created again instead of skipped
+  const deployedAt = new Date().toISOString();
+  const deployed = Object.fromEntries(
+    Object.keys(streams).map((name) => [
+      name,
+      hashes[name]
+        ? { hash: hashes[name]!, commit, deployedAt }
+        : state.deployed[name]!,
+    ])
+  );
+  await saveState(settings.BENTO_SYNC_STATE_DIR, {
+    ...state,
+    managedStreams: Object.keys(streams),
+    deployed,
+    revision: commit,
+    source: options.source ?? state.source,
+    pinned: options.pinned,
+  });
+  console.log(
+    `✅ Stream sync completed (${snapshotted.length} change(s), ${
+      Object.keys(streams).length - Object.keys(hashes).length
+    } unchanged)`
+  );
+  return true;
 }
 
 // Main sync function
 async function main() {
-  const BENTO_API_URL = process.env.BENTO_API_URL || "http://localhost:4195";
-  const TOOLS_ROOT_GITHUB = process.env.TOOLS_ROOT_GITHUB;
+  const DRY_RUN = process.argv.includes("--dry-run");
+  const FORCE = process.argv.includes("--force");
 
-  if (!TOOLS_ROOT_GITHUB) {
+  loadSettings();
+  const { GITHUB_PAT, TOOLS_ROOT_GITHUB } = settings;
+
+  console.log(
+    `🔄 Syncing Bento streams from ${TOOLS_ROOT_GITHUB || process.cwd()}...`
+  );
+
+  // Fetch the whole tools tree (index.ts and everything it imports), keeping
+  // the trees the revisions in the history import from for rollbacks
+  const history = await listRevisions(settings.BENTO_SYNC_STATE_DIR);
+  let tree: ToolsTree;
+  try {
+    tree = await fetchToolsTree(TOOLS_ROOT_GITHUB, {
+      githubToken: GITHUB_PAT || undefined,
+      stateDir: settings.BENTO_SYNC_STATE_DIR,
+      keep: history.map((revision) => revision.commit),
+    });
+  } catch (error) {
+    if (!(error instanceof ToolsSourceError)) {
+      throw error;
+    }
+    console.error(`❌ Error: ${error.message}`);
+    process.exit(1);
+  }
+
+  // Check that every import resolves before importing anything
+  const graph = await checkImports(tree.dir);
+  if (graph.errors.length > 0) {
     console.error(
-      "❌ Error: TOOLS_ROOT_GITHUB environment variable is required"
+      `❌ Error: ${graph.errors.length} unresolved import(s), nothing was synced:`
     );
+    for (const error of graph.errors) {
+      console.error(`  ✗ ${error}`);
+    }
     process.exit(1);
   }
-
-  console.log(`🔄 Syncing Bento streams from ${TOOLS_ROOT_GITHUB}...`);
-
-  // Parse TOOLS_ROOT_GITHUB
-  const parsed = parseToolsRoot(TOOLS_ROOT_GITHUB);
-
-  // Fetch index.ts
-  const indexTsCode = await fetchIndexTs(parsed);
+  console.log(
+    `✓ Found ${graph.files.length} tools file(s) at ${tree.commit.slice(0, 12)}`
+  );
 
   // Compile streams and tests
   console.log(`🔧 Compiling TypeScript exports...`);
-  const { streams, tests } = await compileStreams(indexTsCode);
+  const compiled = await compileFile(join(tree.dir, "index.ts"));
+  printCompileResult(compiled);
+  const { streams, tests } = compiled;
+
+  if (compiled.errors.length > 0) {
+    console.error(
+      `❌ Error: ${compiled.errors.length} export(s) are invalid, nothing was synced`
+    );
+    process.exit(1);
+  }
 
   if (Object.keys(streams).length === 0) {
     console.error("❌ No stream definitions found in exports");
@@ -295,96 +497,106 @@ async function main() {
 
   console.log(`✓ Found ${Object.keys(streams).length} stream definition(s)`);
 
-  // Get environment variables for substitution
+  // Substitute variables in all stream configs
   // IMPORTANT: Bento API does NOT perform variable interpolation
-  // We must substitute all variables BEFORE sending to the API
-  const BASE_DOMAIN = process.env.BASE_DOMAIN || "";
-  const S2_ACCESS_TOKEN = process.env.S2_ACCESS_TOKEN || "";
-  const RESEND_API_KEY = process.env.RESEND_API_KEY || "";
-
-  // S2_BASIN: if not set, derive from BASE_DOMAIN (replace dots with hyphens, lowercase)
-  // S2 basin names must be lowercase letters, numbers, and hyphens only
-  let S2_BASIN = process.env.S2_BASIN || "";
-  if (!S2_BASIN && BASE_DOMAIN) {
-    S2_BASIN = BASE_DOMAIN.replace(/\./g, "-").toLowerCase();
-    console.log(`📝 Derived S2_BASIN from BASE_DOMAIN: ${S2_BASIN}`);
-  }
-
-  if (!S2_BASIN || !BASE_DOMAIN || !S2_ACCESS_TOKEN || !RESEND_API_KEY) {
-    console.warn(
-      "⚠ Warning: Some environment variables are missing. Stream configs may contain unsubstituted variables."
-    );
-    console.warn(
-      `  Missing: S2_BASIN=${S2_BASIN ? "SET" : "MISSING"} BASE_DOMAIN=${
-        BASE_DOMAIN ? "SET" : "MISSING"
-      } S2_ACCESS_TOKEN=${S2_ACCESS_TOKEN ? "SET" : "MISSING"} RESEND_API_KEY=${
-        RESEND_API_KEY ? "SET" : "MISSING"
-      }`
+  // Any environment variable can be referenced; configured values (including
+  // derived ones like S2_BASIN) take precedence
+  const vars = { ...process.env, ...settings, TOOLS_DIR: tree.dir };
+
+  const substitution = substituteStreams(streams, vars);
+  const { unresolved } = substitution;
+  // Bento's s2 inputs and outputs use the same S2 endpoint as sync.ts
+  const substitutedStreams = settings.S2_ENDPOINT
+    ? withS2Endpoint(substitution.streams, settings.S2_ENDPOINT)
+    : substitution.streams;
+  if (unresolved.length > 0) {
+    console.error(
+      `❌ Error: ${unresolved.length} unresolved variable(s), nothing was synced:`
     );
+    for (const entry of unresolved) {
+      console.error(`  ✗ ${formatUnresolved(entry)}`);
+    }
+    process.exit(1);
   }
 
-  // Substitute variables in all stream configs
-  const vars = {
-    S2_BASIN,
-    BASE_DOMAIN,
-    S2_ACCESS_TOKEN,
-    RESEND_API_KEY,
-    TOOLS_ROOT_GITHUB,
-  };
-
-  const substitutedStreams: Record<string, BentoStreamConfig> = {};
-  for (const [name, config] of Object.entries(streams)) {
-    substitutedStreams[name] = substituteVariables(
-      config,
-      vars
-    ) as BentoStreamConfig;
+  // Validate every stream before touching any of them
+  console.log(`🔎 Validating stream definitions...`);
+  const validationErrors = validateStreams(substitutedStreams);
+  if (validationErrors.length > 0) {
+    console.error(
+      `❌ Error: ${validationErrors.length} validation error(s), nothing was synced:`
+    );
+    for (const error of validationErrors) {
+      console.error(`  ✗ ${formatValidationError(error)}`);
+    }
+    process.exit(1);
   }
 
-  // Check if Bento API is accessible
-  console.log(`🔍 Checking Bento API at ${BENTO_API_URL}...`);
-  try {
-    const response = await fetch(`${BENTO_API_URL}/ready`, {
-      signal: AbortSignal.timeout(5000),
-    });
-    if (!response.ok) {
-      console.error(
-        `❌ Error: Bento API at ${BENTO_API_URL} returned HTTP ${response.status}`
-      );
-      process.exit(1);
-    }
-  } catch (error) {
+  // Check the files script code imports at runtime (e.g. runtime.ts), which
+  // index.ts does not import
+  const scriptGraph = await checkScriptImports(tree.dir, substitutedStreams);
+  if (scriptGraph.errors.length > 0) {
     console.error(
-      `❌ Error: Bento API at ${BENTO_API_URL} is not accessible: ${error}`
+      `❌ Error: ${scriptGraph.errors.length} unresolved script import(s), nothing was synced:`
     );
+    for (const error of scriptGraph.errors) {
+      console.error(`  ✗ ${error}`);
+    }
     process.exit(1);
   }
 
-  // Sync streams to Bento
-  console.log(`📤 Syncing streams to Bento...`);
-  let successCount = 0;
-  for (const [name, config] of Object.entries(substitutedStreams)) {
-    if (await syncStream(name, config)) {
-      successCount++;
-    }
+  await checkBento();
+
+  // What a rollback replaced stays rolled back until the stream configs or
+  // the tools files (including those only script code imports) change, also
+  // in a dry run
+  const source = await hashFiles(tree.dir, [
+    ...new Set([...graph.files, ...scriptGraph.files]),
+  ]);
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  const pinned =
+    isPinned(state, hashConfig(substitutedStreams), source) && !FORCE;
+  if (pinned) {
+    console.log(
+      `⏸ Rolled back to revision #${
+        state.pinned!.revision
+      } and the tools it replaced did not change, nothing ${
+        DRY_RUN ? "would be" : "was"
+      } synced (use --force or bun sync.ts unpin to deploy them anyway)`
+    );
   }
 
-  const totalStreams = Object.keys(substitutedStreams).length;
-  console.log(
-    `✅ Stream sync completed (${successCount}/${totalStreams} successful)`
-  );
+  if (DRY_RUN) {
+    const pending =
+      !pinned &&
+      (await dryRun(substitutedStreams, maskedValues(streams, vars)));
+    process.exit(pending ? 2 : 0);
+  }
+  if (pinned) {
+    return;
+  }
 
-  // Fail if not all streams synced successfully
-  if (successCount !== totalStreams) {
-    console.error(
-      `❌ Error: Only ${successCount}/${totalStreams} streams synced successfully`
-    );
+  // Sync streams to Bento, and remove streams that were deleted or renamed in
+  // index.ts
+  if (
+    !(await applyStreams(substitutedStreams, tree.commit, {
+      force: FORCE,
+      source,
+    }))
+  ) {
     process.exit(1);
   }
+  const revision = await saveRevision(
+    settings.BENTO_SYNC_STATE_DIR,
+    streams,
+    hashConfig(substitutedStreams),
+    { commit: tree.commit, toolsDir: tree.dir }
+  );
+  console.log(`✓ Live revision: #${revision.revision} (${tree.commit})`);
 
   // Run tests if any are defined
-  const TEST_SENDER = process.env.TEST_SENDER;
   if (tests.length > 0) {
-    if (!TEST_SENDER) {
+    if (!settings.TEST_SENDER) {
       console.error(
         "❌ Error: $TESTS array found but TEST_SENDER not set. Tests are required to pass."
       );
@@ -412,21 +624,209 @@ async function main() {
   }
 }
 
+// Print the deployment history, latest revision last
+async function showHistory() {
+  loadSettings(["BENTO_SYNC_STATE_DIR"]);
+  const revisions = await listRevisions(settings.BENTO_SYNC_STATE_DIR);
+  if (revisions.length === 0) {
+    console.log("No revisions deployed yet");
+    return;
+  }
+  console.log(`📜 Deployment history (${settings.BENTO_SYNC_STATE_DIR}):`);
+  revisions.forEach((revision, index) => {
+    console.log(formatRevision(revision, index === revisions.length - 1));
+  });
+}
+
+// Re-apply a previous revision through the Bento API
+// What was live before is pinned (not synced by the timer) until its stream
+// configs or tools files change, or it is unpinned
+async function rollback(argument: string | undefined) {
+  const number = Number(argument);
+  if (!argument || !Number.isInteger(number) || number < 1) {
+    console.error("❌ Usage: bun sync.ts rollback <revision>");
+    process.exit(1);
+  }
+  loadSettings();
+  const revision = await loadRevision(settings.BENTO_SYNC_STATE_DIR, number);
+  if (!revision) {
+    console.error(
+      `❌ Error: Revision #${number} not found (see bun sync.ts history)`
+    );
+    process.exit(1);
+  }
+
+  console.log(
+    `⏪ Rolling back to revision #${revision.revision} (${revision.commit}, deployed ${revision.deployedAt})...`
+  );
+
+  // The script code imports the tools tree the revision was deployed with
+  if (!(await Bun.file(join(revision.toolsDir, "index.ts")).exists())) {
+    console.error(
+      `❌ Error: The tools of revision #${revision.revision} are no longer in ${revision.toolsDir}`
+    );
+    process.exit(1);
+  }
+
+  // Substitute the current variable values, like a sync does
+  const vars = {
+    ...process.env,
+    ...settings,
+    TOOLS_DIR: revision.toolsDir,
+  };
+  const substitution = substituteStreams(revision.streams, vars);
+  const { unresolved } = substitution;
+  const streams = settings.S2_ENDPOINT
+    ? withS2Endpoint(substitution.streams, settings.S2_ENDPOINT)
+    : substitution.streams;
+  if (unresolved.length > 0) {
+    console.error(
+      `❌ Error: ${unresolved.length} unresolved variable(s), nothing was rolled back:`
+    );
+    for (const entry of unresolved) {
+      console.error(`  ✗ ${formatUnresolved(entry)}`);
+    }
+    process.exit(1);
+  }
+
+  await checkBento();
+
+  // Pin the latest revision, unless an earlier rollback already pinned what
+  // the timer would deploy
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  const latest = (await listRevisions(settings.BENTO_SYNC_STATE_DIR)).at(-1);
+  const replaced =
+    state.pinned ??
+    (latest && state.source
+      ? { hash: latest.hash, source: state.source }
+      : undefined);
+  const pinned = replaced && { ...replaced, revision: revision.revision };
+  if (!(await applyStreams(streams, revision.commit, { pinned }))) {
+    process.exit(1);
+  }
+
+  const live = await saveRevision(
+    settings.BENTO_SYNC_STATE_DIR,
+    revision.streams,
+    hashConfig(streams),
+    { commit: revision.commit, toolsDir: revision.toolsDir },
+    revision.revision
+  );
+  console.log(
+    `✓ Live revision: #${live.revision} (${revision.commit}, rollback of #${revision.revision})`
+  );
+}
+
+// Let the timer deploy what a rollback replaced again
+async function unpin() {
+  loadSettings(["BENTO_SYNC_STATE_DIR"]);
+  const state = await loadState(settings.BENTO_SYNC_STATE_DIR);
+  if (!state.pinned) {
+    console.log("Nothing is pinned");
+    return;
+  }
+  await saveState(settings.BENTO_SYNC_STATE_DIR, {
+    ...state,
+    pinned: undefined,
+  });
+  console.log(
+    `✓ Unpinned, the next sync deploys the tools again (rolled back to revision #${state.pinned.revision})`
+  );
+}
+
+// Create an S2 client for the configured basin
+// S2_ENDPOINT overrides the S2 API endpoint, e.g. to use the local stand-in
+// from s2-local.ts instead of a real basin
+function createStore(): S2Client {
+  return createS2Client({
+    basin: settings.S2_BASIN,
+    accessToken: settings.S2_ACCESS_TOKEN,
+    endpoint: settings.S2_ENDPOINT || undefined,
+  });
+}
+
+// Extract the transformed text from a reply produced by transform_email
+// Plain string results are wrapped in a blockquote, structured results are
+// compared by their text (or html), like the offline test runner does
+function extractTransformedText(reply: { html?: string; text?: string }) {
+  if (reply.text !== undefined) {
+    return reply.text;
+  }
+  const html = reply.html ?? "";
+  const match = html.match(/<blockquote>([\s\S]*)<\/blockquote>/);
+  return match ? match[1]! : html;
+}
+
+interface TestReply {
+  from: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+// Whether an outbox record is the tool's reply to the test email with a token
+function isReplyTo(
+  payload: unknown,
+  token: string,
+  toolSender: string
+): payload is TestReply {
+  if (!payload || typeof payload !== "object") {
+    return false;
+  }
+  const reply = payload as Partial<TestReply>;
+  return (
+    typeof reply.from === "string" &&
+    reply.from.includes(toolSender) &&
+    reply.headers?.[TEST_TOKEN_HEADER] === token
+  );
+}
+
+// Poll the outbox stream for the reply to a test email
+// The reply is correlated by the token in its TEST_TOKEN_HEADER (tools may set
+// their own subject) and must come from the tool's inbox
+async function waitForReply(
+  store: S2Client,
+  startSeqNum: number,
+  token: string,
+  toolSender: string,
+  timeoutMs: number
+): Promise<TestReply | null> {
+  const deadline = Date.now() + timeoutMs;
+  let seqNum = startSeqNum;
+
+  while (Date.now() < deadline) {
+    const records = await store.read("outbox", seqNum, 100);
+    for (const record of records) {
+      seqNum = record.seqNum + 1;
+      let payload: unknown;
+      try {
+        payload = JSON.parse(record.body);
+      } catch {
+        continue;
+      }
+      if (isReplyTo(payload, token, toolSender)) {
+        return payload;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+
+  return null;
+}
+
 // Run a single test case
+// Sends a test email to the tool's inbox and waits for the reply in outbox
 async function runTest(
   test: TestCase
 ): Promise<{ test: TestCase; passed: boolean; error?: string }> {
-  const BASE_DOMAIN = process.env.BASE_DOMAIN || "";
-  const S2_BASIN =
-    process.env.S2_BASIN ||
-    (BASE_DOMAIN ? BASE_DOMAIN.replace(/\./g, "-").toLowerCase() : "");
-  const S2_ACCESS_TOKEN = process.env.S2_ACCESS_TOKEN || "";
-  const TEST_SENDER = process.env.TEST_SENDER || "";
-  const BENTO_API_URL = process.env.BENTO_API_URL || "http://localhost:4195";
+  const { BASE_DOMAIN, TEST_SENDER } = settings;
+  const TEST_TIMEOUT_MS = Number(settings.TEST_TIMEOUT_MS);
 
   const testReceiver = `${test.stream}@${BASE_DOMAIN}`;
-  const testSubject = `Test: ${test.stream} - ${test.input}`;
-  const senderName = TEST_SENDER.split("@")[0];
+  const token = `bento-test-${crypto.randomUUID()}`;
+  const testSubject = `Test: ${test.stream} [${token}]`;
+  const senderName = TEST_SENDER.split("@")[0] || TEST_SENDER;
   const capitalizedSenderName =
     senderName.charAt(0).toUpperCase() + senderName.slice(1);
 
@@ -435,81 +835,57 @@ async function runTest(
   );
 
   try {
-    // Initialize S2 client
-    const store = new StreamStore({
-      basin: S2_BASIN,
-      accessToken: S2_ACCESS_TOKEN,
-    });
+    const store = createStore();
 
-    // Clear inbox stream for this tool
-    const inboxStream = `inbox/${test.stream}`;
-    try {
-      await store.deleteStream(inboxStream);
-      // Wait a bit for deletion to complete
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-    } catch {
-      // Stream might not exist, that's okay
-    }
+    // Ensure outbox stream exists
+    await store.createStream("outbox");
 
-    try {
-      await store.createStream(inboxStream);
-    } catch {
-      // Stream might already exist, that's okay
-    }
+    // Only replies appended after this point can belong to this test
+    const nextSeqNum = await store.tail("outbox");
 
     // Construct Resend API payload
     const resendPayload = {
       from: `${capitalizedSenderName} <${TEST_SENDER}>`,
       to: [testReceiver],
       subject: testSubject,
+      text: test.input,
       html: test.input,
+      headers: { [TEST_TOKEN_HEADER]: token },
     };
 
-    // Ensure outbox stream exists
-    try {
-      await store.createStream("outbox");
-    } catch {
-      // Stream might already exist, that's okay
-    }
-
-    // Append test email to outbox stream
+    // Append test email to outbox stream, send_email delivers it via Resend
     await store.append("outbox", JSON.stringify(resendPayload));
-
-    console.log(`    ✓ Test email added to S2 outbox stream`);
-
-    // Wait for email delivery and processing (5 seconds is enough for Resend)
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-
-    // Check Bento logs to confirm processing
-    // We'll use a simple approach: check if Bento processed the message
-    // by checking the API for recent activity or checking logs via systemd
-    // For now, we'll just check if we can reach Bento and assume success
-    // In a real implementation, you'd check the actual email delivery
-
-    // For now, we'll just verify the message was processed by checking Bento is responsive
-    try {
-      const response = await fetch(`${BENTO_API_URL}/ready`, {
-        signal: AbortSignal.timeout(5000),
-      });
-      if (!response.ok) {
-        return {
-          test,
-          passed: false,
-          error: `Bento API not ready (HTTP ${response.status})`,
-        };
-      }
-    } catch (error) {
+    console.log(`    ✓ Test email added to S2 outbox stream (${token})`);
+
+    // Wait for the round trip: Resend → ingest_email → transform_email → outbox
+    const reply = await waitForReply(
+      store,
+      nextSeqNum,
+      token,
+      testReceiver,
+      TEST_TIMEOUT_MS
+    );
+    if (!reply) {
       return {
         test,
         passed: false,
-        error: `Bento API not accessible: ${error}`,
+        error: `No reply found in outbox within ${TEST_TIMEOUT_MS}ms`,
       };
     }
 
-    // Note: In a production system, you'd want to actually verify the email was sent
-    // and received with the expected content. For now, we'll assume success if Bento is running.
-    // TODO: Implement actual email verification via Resend API or webhook
+    const actual = extractTransformedText(reply);
+    if (actual !== test.expected) {
+      return {
+        test,
+        passed: false,
+        error: [
+          "Output does not match expected (- expected, + actual):",
+          ...diffText(test.expected, actual).map((line) => `    ${line}`),
+        ].join("\n"),
+      };
+    }
 
+    console.log(`    ✓ Reply matches expected output`);
     return { test, passed: true };
   } catch (error) {
     return {
@@ -534,7 +910,26 @@ async function runTests(
 
 // Run if executed directly
 if (import.meta.main) {
-  main().catch((error) => {
+  const [command, argument] = process.argv
+    .slice(2)
+    .filter((arg) => !arg.startsWith("--"));
+  const run =
+    command === "history"
+      ? showHistory
+      : command === "rollback"
+      ? () => rollback(argument)
+      : command === "unpin"
+      ? unpin
+      : command === undefined
+      ? main
+      : null;
+  if (!run) {
+    console.error(
+      "❌ Usage: bun sync.ts [--dry-run] [--force] | history | rollback <revision> | unpin"
+    );
+    process.exit(1);
+  }
+  run().catch((error) => {
     console.error("❌ Sync failed:", error);
     process.exit(1);
   });
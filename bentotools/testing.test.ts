@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { buildTestEmail, runToolTests } from "./testing.ts";
+
+const tools = {
+  upper: (email: { text?: string }) => email.text!.toUpperCase(),
+  asyncUpper: async (email: { text?: string }) => email.text!.toUpperCase(),
+  broken: () => {
+    throw new Error("boom");
+  },
+};
+
+describe("runToolTests", () => {
+  test("passes when the tool output matches", async () => {
+    const [result] = await runToolTests(tools, [
+      { stream: "upper", input: "abc", expected: "ABC" },
+    ]);
+    expect(result).toMatchObject({ passed: true, actual: "ABC" });
+  });
+
+  test("awaits tools that return a promise", async () => {
+    const [result] = await runToolTests(tools, [
+      { stream: "asyncUpper", input: "abc", expected: "ABC" },
+    ]);
+    expect(result?.passed).toBe(true);
+  });
+
+  test("fails with a diff when the output differs", async () => {
+    const [result] = await runToolTests(tools, [
+      { stream: "upper", input: "abc", expected: "abd" },
+    ]);
+    expect(result?.passed).toBe(false);
+    expect(result?.error).toContain("- abd");
+    expect(result?.error).toContain("+ ABC");
+  });
+
+  test("reports missing and throwing tools", async () => {
+    const results = await runToolTests(tools, [
+      { stream: "missing", input: "", expected: "" },
+      { stream: "broken", input: "", expected: "" },
+    ]);
+    expect(results.map((r) => r.error)).toEqual([
+      'Tool function "missing" not found in index.ts',
+      "boom",
+    ]);
+  });
+});
+
+test("buildTestEmail addresses the tool inbox", () => {
+  const email = buildTestEmail({
+    stream: "reverser",
+    input: "Hi",
+    expected: "",
+  });
+  expect(email.to).toEqual(["reverser@example.com"]);
+  expect(email.text).toBe("Hi");
+});
@@ -0,0 +1,83 @@
+/**
+ * Offline Tool Test Runner
+ *
+ * Runs the $TESTS cases exported by index.ts by calling the matching tool
+ * function directly with an Email built from the test input. No S2, Resend or
+ * Bento is involved, so this works without network access or credentials.
+ * Tools are invoked through runtime.ts, exactly like transform_email does.
+ * For structured results, `expected` is compared against the result's text
+ * (or html if the tool only returned html).
+ */
+
+import type { ToolEmail } from "bentotools";
+import { diffText } from "./diff.ts";
+import { getTool, invokeTool, outputText } from "./runtime.ts";
+
+export interface TestCase {
+  stream: string;
+  input: string;
+  expected: string;
+}
+
+export interface TestResult {
+  test: TestCase;
+  passed: boolean;
+  actual?: string;
+  error?: string;
+}
+
+// Build the Email a tool would receive for a test case
+export function buildTestEmail(test: TestCase): ToolEmail {
+  return {
+    id: `test-${test.stream}`,
+    from: "Test <test@example.com>",
+    to: [`${test.stream}@example.com`],
+    subject: `Test: ${test.stream}`,
+    text: test.input,
+    html: test.input,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Run a single test case against the tools module
+export async function runToolTest(
+  tools: Record<string, unknown>,
+  test: TestCase
+): Promise<TestResult> {
+  try {
+    const tool = getTool(tools, test.stream);
+    const actual = outputText(
+      await invokeTool(test.stream, tool, buildTestEmail(test))
+    );
+    if (actual !== test.expected) {
+      return {
+        test,
+        passed: false,
+        actual,
+        error: [
+          "Output does not match expected (- expected, + actual):",
+          ...diffText(test.expected, actual).map((line) => `    ${line}`),
+        ].join("\n"),
+      };
+    }
+    return { test, passed: true, actual };
+  } catch (error) {
+    return {
+      test,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Run all test cases in order
+export async function runToolTests(
+  tools: Record<string, unknown>,
+  tests: TestCase[]
+): Promise<TestResult[]> {
+  const results: TestResult[] = [];
+  for (const test of tests) {
+    results.push(await runToolTest(tools, test));
+  }
+  return results;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, test } from "bun:test";
+import type { BentoStreamConfig } from "./compile.ts";
+import {
+  applyChanges,
+  SnapshotError,
+  snapshotChanges,
+  type StreamChange,
+  type StreamsApi,
+} from "./transaction.ts";
+
+function stream(label: string): BentoStreamConfig {
+  return {
+    input: { http_server: { path: `/${label}` } },
+    output: { sync_response: {} },
+  };
+}
+
+// An in-memory Bento that rejects the configs with the given labels, and
+// deleting the given streams
+function fakeBento(
+  live: Record<string, BentoStreamConfig>,
+  reject: { configs?: string[]; delete?: string[] } = {}
+): StreamsApi & { live: Record<string, BentoStreamConfig> } {
+  const rejected = (config: BentoStreamConfig) =>
+    reject.configs?.some(
+      (label) => JSON.stringify(config) === JSON.stringify(stream(label))
+    );
+  return {
+    live,
+    async get(name) {
+      return live[name] ?? null;
+    },
+    async create(name, config) {
+      if (rejected(config) || live[name]) {
+        return false;
+      }
+      live[name] = config;
+      return true;
+    },
+    async update(name, config) {
+      if (rejected(config) || !live[name]) {
+        return false;
+      }
+      live[name] = config;
+      return true;
+    },
+    async delete(name) {
+      if (reject.delete?.includes(name)) {
+        return false;
+      }
+      delete live[name];
+      return true;
+    },
+  };
+}
+
+describe("snapshotChanges", () => {
+  test("records the live configs of updated and deleted streams", async () => {
+    const bento = fakeBento({ a: stream("a1"), c: stream("c1") });
+    const changes = await snapshotChanges(
+      [
+        { name: "a", action: "update", config: stream("a2") },
+        { name: "b", action: "update", config: stream("b2") },
+        { name: "c", action: "delete" },
+        { name: "d", action: "delete" },
+      ],
+      bento
+    );
+    expect(changes).toEqual([
+      {
+        name: "a",
+        action: "update",
+        config: stream("a2"),
+        before: stream("a1"),
+      },
+      { name: "b", action: "create", config: stream("b2") },
+      { name: "c", action: "delete", before: stream("c1") },
+    ]);
+  });
+
+  test("fails if a live config cannot be fetched", async () => {
+    const bento = fakeBento({});
+    bento.get = async () => {
+      throw new Error("HTTP 500");
+    };
+    await expect(
+      snapshotChanges([{ name: "a", action: "delete" }], bento)
+    ).rejects.toThrow(SnapshotError);
+  });
+});
+
+describe("applyChanges", () => {
+  const changes = (bento: StreamsApi): Promise<StreamChange[]> =>
+    snapshotChanges(
+      [
+        { name: "a", action: "update", config: stream("a2") },
+        { name: "b", action: "create", config: stream("b2") },
+        { name: "c", action: "delete" },
+        { name: "d", action: "update", config: stream("d2") },
+      ],
+      bento
+    );
+  const before = () => ({ a: stream("a1"), c: stream("c1"), d: stream("d1") });
+
+  test("applies every change", async () => {
+    const bento = fakeBento(before());
+    const result = await applyChanges(await changes(bento), bento);
+    expect(result).toEqual({
+      success: true,
+      outcomes: { a: "applied", b: "applied", c: "applied", d: "applied" },
+    });
+    expect(bento.live).toEqual({
+      a: stream("a2"),
+      b: stream("b2"),
+      d: stream("d2"),
+    });
+  });
+
+  test("restores every stream if one change fails", async () => {
+    const bento = fakeBento(before(), { configs: ["d2"] });
+    const result = await applyChanges(await changes(bento), bento);
+    expect(result).toEqual({
+      success: false,
+      outcomes: { a: "reverted", b: "reverted", c: "reverted", d: "failed" },
+    });
+    expect(bento.live).toEqual(before());
+  });
+
+  test("reports streams that could not be restored", async () => {
+    const bento = fakeBento(before(), { configs: ["b2"] });
+    const snapshotted = await changes(bento);
+    // Fail the update of a only when it is reverted
+    let updates = 0;
+    const update = bento.update;
+    bento.update = async (name, config) =>
+      name === "a" && updates++ > 0 ? false : update(name, config);
+
+    const result = await applyChanges(snapshotted, bento);
+    expect(result).toEqual({
+      success: false,
+      outcomes: {
+        a: "revert failed",
+        b: "failed",
+        c: "not applied",
+        d: "not applied",
+      },
+    });
+    expect(bento.live).toEqual({ ...before(), a: stream("a2") });
+  });
+
+  test("treats thrown errors as failures", async () => {
+    const bento = fakeBento(before());
+    const snapshotted = await changes(bento);
+    bento.delete = async () => {
+      throw new Error("connection refused");
+    };
+    const result = await applyChanges(snapshotted, bento);
+    expect(result.success).toBe(false);
+    expect(result.outcomes).toEqual({
+      a: "reverted",
+      // Deleting the created stream threw too
+      b: "revert failed",
+      c: "failed",
+      d: "not applied",
+    });
+    expect(bento.live).toEqual({ ...before(), b: stream("b2") });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Atomic Multi-Stream Sync
+ *
+ * The streams of index.ts depend on each other (transform_email reads what the
+ * webhook stream writes, send_email sends what transform_email produces), so a
+ * sync that updates some streams and fails on the next one leaves a mix of old
+ * and new configs running. sync.ts therefore applies all changes as one
+ * transaction:
+ * 1. the live config of every stream that will be updated or deleted is
+ *    snapshotted before anything is touched
+ * 2. the changes are applied one by one
+ * 3. if any change fails, every change applied so far (and the failed one) is
+ *    reverted in reverse order: updated streams get their snapshot back,
+ *    created streams are deleted and deleted streams are created again
+ *
+ * The outcome of every stream is reported, including streams whose restore
+ * failed and need attention.
+ */
+
+import type { BentoStreamConfig } from "./compile.ts";
+
+export interface StreamChange {
+  name: string;
+  action: "create" | "update" | "delete";
+  // New config (create and update)
+  config?: BentoStreamConfig;
+  // Live config before the change (update and delete), see snapshotChanges
+  before?: BentoStreamConfig;
+}
+
+// The Bento streams API operations a transaction needs, each returning
+// whether it succeeded
+export interface StreamsApi {
+  get(name: string): Promise<BentoStreamConfig | null>;
+  create(name: string, config: BentoStreamConfig): Promise<boolean>;
+  update(name: string, config: BentoStreamConfig): Promise<boolean>;
+  delete(name: string): Promise<boolean>;
+}
+
+export type StreamOutcome =
+  // The change is live
+  | "applied"
+  // The change failed (and was reverted)
+  | "failed"
+  // The change was applied, then reverted because another one failed
+  | "reverted"
+  // The change could not be reverted, the stream is in an unknown state
+  | "revert failed"
+  // The change was not attempted because an earlier one failed
+  | "not applied";
+
+export interface TransactionResult {
+  success: boolean;
+  outcomes: Record<string, StreamOutcome>;
+}
+
+export class SnapshotError extends Error {
+  constructor(public readonly stream: string, cause: unknown) {
+    super(`Could not snapshot stream '${stream}': ${cause}`);
+    this.name = "SnapshotError";
+  }
+}
+
+// Fetch the live config of every stream a change will overwrite or delete
+// A change whose stream has disappeared in the meantime becomes a create (or
+// is dropped, for deletes)
+export async function snapshotChanges(
+  changes: StreamChange[],
+  api: StreamsApi
+): Promise<StreamChange[]> {
+  const snapshotted: StreamChange[] = [];
+  for (const change of changes) {
+    if (change.action === "create") {
+      snapshotted.push(change);
+      continue;
+    }
+
+    let before: BentoStreamConfig | null;
+    try {
+      before = await api.get(change.name);
+    } catch (error) {
+      throw new SnapshotError(change.name, error);
+    }
+
+    if (before) {
+      snapshotted.push({ ...change, before });
+    } else if (change.action === "update") {
+      snapshotted.push({ ...change, action: "create" });
+    }
+  }
+  return snapshotted;
+}
+
+async function apply(change: StreamChange, api: StreamsApi): Promise<boolean> {
+  switch (change.action) {
+    case "create":
+      return api.create(change.name, change.config!);
+    case "update":
+      return api.update(change.name, change.config!);
+    case "delete":
+      return api.delete(change.name);
+  }
+}
+
+// Undo a change, using the snapshot taken before it
+async function revert(change: StreamChange, api: StreamsApi): Promise<boolean> {
+  try {
+    switch (change.action) {
+      case "create":
+        return await api.delete(change.name);
+      case "update":
+        return await api.update(change.name, change.before!);
+      case "delete":
+        // A failed delete may have left the stream running
+        return (
+          (await api.get(change.name)) !== null ||
+          (await api.create(change.name, change.before!))
+        );
+    }
+  } catch {
+    return false;
+  }
+}
+
+// Apply snapshotted changes, reverting all of them if any fails
+export async function applyChanges(
+  changes: StreamChange[],
+  api: StreamsApi
+): Promise<TransactionResult> {
+  const outcomes: Record<string, StreamOutcome> = {};
+  for (const change of changes) {
+    outcomes[change.name] = "not applied";
+  }
+
+  const attempted: StreamChange[] = [];
+  let failed = false;
+  for (const change of changes) {
+    attempted.push(change);
+    let ok: boolean;
+    try {
+      ok = await apply(change, api);
+    } catch {
+      ok = false;
+    }
+    if (!ok) {
+      outcomes[change.name] = "failed";
+      failed = true;
+      break;
+    }
+    outcomes[change.name] = "applied";
+  }
+
+  if (!failed) {
+    return { success: true, outcomes };
+  }
+
+  // Revert in reverse order, including the failed change: Bento may have
+  // stopped the old stream before rejecting the new config
+  for (const change of attempted.reverse()) {
+    const reverted = await revert(change, api);
+    if (outcomes[change.name] === "applied") {
+      outcomes[change.name] = reverted ? "reverted" : "revert failed";
+    } else if (!reverted && change.action !== "create") {
+      outcomes[change.name] = "revert failed";
+    }
+  }
+  return { success: false, outcomes };
+}
@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatUnresolved,
+  substitutedVariables,
+  substituteStreams,
+  substituteString,
+  toBentoInterpolation,
+} from "./variables.ts";
+
+const vars = { S2_BASIN: "example-com", EMPTY: "", TOKEN: "secret" };
+
+describe("substituteString", () => {
+  test("replaces any known variable", () => {
+    expect(substituteString("${S2_BASIN}/${TOKEN}", vars)).toBe(
+      "example-com/secret"
+    );
+  });
+
+  test("uses defaults for unset or empty variables", () => {
+    expect(substituteString("${MISSING:-fallback}", vars)).toBe("fallback");
+    expect(substituteString("${EMPTY:-fallback}", vars)).toBe("fallback");
+    expect(substituteString("${TOKEN:-fallback}", vars)).toBe("secret");
+    expect(substituteString("${MISSING:-}", vars)).toBe("");
+  });
+
+  test("leaves Bento interpolations alone", () => {
+    const text = 'inbox/${!this.data.to[0].split("@")[0]}';
+    expect(substituteString(text, vars)).toBe(text);
+  });
+
+  test("turns $${...} into a literal ${...}", () => {
+    expect(substituteString("`id: $${email.id}`", vars)).toBe(
+      "`id: ${email.id}`"
+    );
+  });
+
+  test("reports unresolved and invalid expressions", () => {
+    const unresolved: string[] = [];
+    const text = "${S2_BASN} ${EMPTY} ${email.id} ${S2_BASIN}";
+    expect(substituteString(text, vars, (e) => unresolved.push(e))).toBe(
+      "${S2_BASN} ${EMPTY} ${email.id} example-com"
+    );
+    expect(unresolved).toEqual(["${S2_BASN}", "${EMPTY}", "${email.id}"]);
+  });
+});
+
+describe("substituteStreams", () => {
+  test("substitutes every string and lists unresolved paths per stream", () => {
+    const streams = {
+      send_email: {
+        input: { s2: { basin: "${S2_BASIN}", auth_token: "${S2_TOKEN}" } },
+        output: { http_client: { headers: { Authorization: "${KEY}" } } },
+      },
+      ingest_email: {
+        input: { http_server: { path: "/webhooks" } },
+        pipeline: { processors: [{ bloblang: "root = ${!content()}" }] },
+        output: { s2: { basin: "${S2_BASIN}" } },
+      },
+    };
+
+    const result = substituteStreams(streams, vars);
+    expect(result.streams.send_email!.input).toEqual({
+      s2: { basin: "example-com", auth_token: "${S2_TOKEN}" },
+    });
+    expect(result.streams.ingest_email).toEqual({
+      ...streams.ingest_email,
+      output: { s2: { basin: "example-com" } },
+    });
+    expect(result.unresolved).toEqual([
+      {
+        stream: "send_email",
+        path: "input.s2.auth_token",
+        expression: "${S2_TOKEN}",
+      },
+      {
+        stream: "send_email",
+        path: "output.http_client.headers.Authorization",
+        expression: "${KEY}",
+      },
+    ]);
+    expect(result.unresolved.map(formatUnresolved)).toEqual([
+      "send_email: input.s2.auth_token: ${S2_TOKEN} is not set",
+      "send_email: output.http_client.headers.Authorization: ${KEY} is not set",
+    ]);
+  });
+
+  test("explains invalid references", () => {
+    const { unresolved } = substituteStreams(
+      { a: { input: { script: { code: "`${x.y}`" } }, output: {} } },
+      vars
+    );
+    expect(unresolved.map(formatUnresolved)).toEqual([
+      "a: input.script.code: ${x.y} is not a valid variable reference",
+    ]);
+  });
+});
+
+describe("substitutedVariables", () => {
+  test("lists the variables replaced with a value", () => {
+    const streams = {
+      a: {
+        input: { s2: { basin: "${S2_BASIN}", auth_token: "${TOKEN}" } },
+        output: {
+          s2: { stream: "${EMPTY:-outbox}/${MISSING:-x}/$${S2_BASIN}" },
+        },
+      },
+    };
+    expect(substitutedVariables(streams, vars)).toEqual(["S2_BASIN", "TOKEN"]);
+  });
+});
+
+describe("toBentoInterpolation", () => {
+  test("writes defaults the way Bento reads them", () => {
+    const { streams, unsupported } = toBentoInterpolation({
+      send: {
+        input: { s2: { basin: "${S2_BASIN}", streams: "${INBOX:-inbox/a}" } },
+        output: { s2: { stream: 'errors/${!meta("inbox")}' } },
+      },
+    });
+    expect(streams.send).toEqual({
+      input: { s2: { basin: "${S2_BASIN}", streams: "${INBOX:inbox/a}" } },
+      output: { s2: { stream: 'errors/${!meta("inbox")}' } },
+    });
+    expect(unsupported).toEqual([]);
+  });
+
+  test("reports escapes, which Bento has no equivalent for", () => {
+    const { unsupported } = toBentoInterpolation({
+      a: {
+        input: { http_server: { path: "/a" } },
+        output: { script: { code: "`id: $${email.id}`" } },
+      },
+    });
+    expect(unsupported).toEqual([
+      { stream: "a", path: "output.script.code", expression: "$${email.id}" },
+    ]);
+  });
+
+  test("substitutes the variables known when compiling", () => {
+    const { streams } = toBentoInterpolation(
+      {
+        a: {
+          input: { s2: { basin: "${S2_BASIN}" } },
+          output: { script: { code: 'await import("${TOOLS_DIR}/a.ts")' } },
+        },
+      },
+      { TOOLS_DIR: "/opt/tools" }
+    );
+    expect(streams.a).toEqual({
+      input: { s2: { basin: "${S2_BASIN}" } },
+      output: { script: { code: 'await import("/opt/tools/a.ts")' } },
+    });
+  });
+});
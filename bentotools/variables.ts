@@ -0,0 +1,209 @@
+/**
+ * Variable Substitution for Stream Configurations
+ *
+ * The Bento streams API does NOT interpolate environment variables, so
+ * sync.ts substitutes them before sending configs:
+ * - ${VAR} is replaced with the value of VAR (any environment or secret
+ *   variable, plus derived ones like S2_BASIN and TOOLS_DIR, the directory of
+ *   the tools tree)
+ * - ${VAR:-default} falls back to `default` if VAR is unset or empty
+ * - ${!...} is Bento's own runtime interpolation and is left alone
+ * - $${...} is an escape for a literal ${...}, e.g. template literals in
+ *   script code
+ *
+ * Any other ${...} that cannot be resolved is reported with the stream name
+ * and path, so the sync can fail instead of sending it to Bento verbatim.
+ *
+ * Config files written by compiler.ts --yaml are interpolated by Bento itself
+ * instead, see toBentoInterpolation.
+ */
+
+import type { BentoStreamConfig } from "./compile.ts";
+
+export interface UnresolvedVariable {
+  stream: string;
+  path: string;
+  expression: string;
+}
+
+const EXPRESSION_PATTERN = /(\$?)\$\{([^}]*)\}/g;
+const VARIABLE_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)(?::-(.*))?$/s;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+// Substitute variables in a single string
+// Unresolvable expressions are kept as-is and passed to onUnresolved
+export function substituteString(
+  text: string,
+  vars: Record<string, string | undefined>,
+  onUnresolved: (expression: string) => void = () => {}
+): string {
+  return text.replace(EXPRESSION_PATTERN, (expression, escape, body) => {
+    if (escape) {
+      return expression.slice(1);
+    }
+    if (body.startsWith("!")) {
+      return expression;
+    }
+
+    const match = body.match(VARIABLE_PATTERN);
+    if (match) {
+      const [, name, fallback] = match;
+      const value = vars[name!];
+      if (value) {
+        return value;
+      }
+      if (fallback !== undefined) {
+        return fallback;
+      }
+    }
+
+    onUnresolved(expression);
+    return expression;
+  });
+}
+
+// Apply fn to every string of a config, with its path
+function mapStrings(
+  config: unknown,
+  fn: (text: string, path: string) => string,
+  path: string = ""
+): unknown {
+  if (typeof config === "string") {
+    return fn(config, path);
+  }
+
+  if (Array.isArray(config)) {
+    return config.map((item, index) =>
+      mapStrings(item, fn, joinPath(path, index))
+    );
+  }
+
+  if (isPlainObject(config)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(config)) {
+      result[key] = mapStrings(value, fn, joinPath(path, key));
+    }
+    return result;
+  }
+
+  return config;
+}
+
+// Substitute variables in every string of a config, collecting unresolved
+// expressions with their paths
+export function substituteVariables(
+  config: unknown,
+  vars: Record<string, string | undefined>,
+  unresolved: Array<{ path: string; expression: string }> = [],
+  path: string = ""
+): unknown {
+  return mapStrings(
+    config,
+    (text, textPath) =>
+      substituteString(text, vars, (expression) =>
+        unresolved.push({ path: textPath, expression })
+      ),
+    path
+  );
+}
+
+// Substitute variables in all streams
+export function substituteStreams<T = BentoStreamConfig>(
+  streams: Record<string, T>,
+  vars: Record<string, string | undefined>
+): {
+  streams: Record<string, T>;
+  unresolved: UnresolvedVariable[];
+} {
+  const substituted: Record<string, T> = {};
+  const unresolved: UnresolvedVariable[] = [];
+
+  for (const [name, config] of Object.entries(streams)) {
+    const streamUnresolved: Array<{ path: string; expression: string }> = [];
+    substituted[name] = substituteVariables(
+      config,
+      vars,
+      streamUnresolved
+    ) as T;
+    unresolved.push(
+      ...streamUnresolved.map((entry) => ({ stream: name, ...entry }))
+    );
+  }
+
+  return { streams: substituted, unresolved };
+}
+
+// Names of the variables substituteStreams replaces with a value, e.g. for
+// masking their values in output
+export function substitutedVariables(
+  streams: Record<string, unknown>,
+  vars: Record<string, string | undefined>
+): string[] {
+  const names = new Set<string>();
+  mapStrings(streams, (text) => {
+    for (const [, escape, body] of text.matchAll(EXPRESSION_PATTERN)) {
+      const name = body!.match(VARIABLE_PATTERN)?.[1];
+      if (!escape && name && vars[name]) {
+        names.add(name);
+      }
+    }
+    return text;
+  });
+  return [...names].sort();
+}
+
+// Rewrite references for Bento's own interpolation of config files (compiler.ts
+// --yaml), which knows ${VAR} and ${VAR:default} but not ${VAR:-default}, and
+// has no escape: ${VAR:-default} becomes ${VAR:default}, and every $${...} is
+// returned as unsupported. Variables in vars are known when compiling and are
+// substituted instead
+export function toBentoInterpolation<T = BentoStreamConfig>(
+  streams: Record<string, T>,
+  vars: Record<string, string> = {}
+): {
+  streams: Record<string, T>;
+  unsupported: UnresolvedVariable[];
+} {
+  const translated: Record<string, T> = {};
+  const unsupported: UnresolvedVariable[] = [];
+
+  for (const [name, config] of Object.entries(streams)) {
+    translated[name] = mapStrings(config, (text, path) =>
+      text.replace(EXPRESSION_PATTERN, (expression, escape, body) => {
+        if (escape) {
+          unsupported.push({ stream: name, path, expression });
+          return expression;
+        }
+        const match = body.match(VARIABLE_PATTERN);
+        if (match && vars[match[1]!] !== undefined) {
+          return vars[match[1]!]!;
+        }
+        if (match?.[2] !== undefined) {
+          return `\${${match[1]}:${match[2]}}`;
+        }
+        return expression;
+      })
+    ) as T;
+  }
+
+  return { streams: translated, unsupported };
+}
+
+// Format an unresolved expression for printing, e.g.
+// send_email: input.s2.basin: ${S2_BASN} is not set
+export function formatUnresolved(entry: UnresolvedVariable): string {
+  const isVariable = VARIABLE_PATTERN.test(entry.expression.slice(2, -1));
+  return `${entry.stream}: ${entry.path}: ${entry.expression} ${
+    isVariable ? "is not set" : "is not a valid variable reference"
+  }`;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import { toYAML } from "./yaml.ts";
+
+// Parse the emitted YAML back and compare against the original value
+function roundTrip(value: unknown): unknown {
+  return Bun.YAML.parse(toYAML(value));
+}
+
+describe("toYAML", () => {
+  test("writes multi-line strings as literal block scalars", () => {
+    const code = 'const x = `${a}`;\nif (x) {\n  return "y";\n}\n';
+    const yaml = toYAML({ pipeline: { processors: [{ script: { code } }] } });
+    expect(yaml).toBe(
+      [
+        "pipeline:",
+        "  processors:",
+        "    - script:",
+        "        code: |",
+        "          const x = `${a}`;",
+        "          if (x) {",
+        '            return "y";',
+        "          }",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("quotes strings YAML would otherwise misread", () => {
+    const values = {
+      flow_map: "{ a: 1 }",
+      flow_seq: "[1, 2]",
+      single_quote: "it's",
+      leading_dash: "- item",
+      dash: "-",
+      colon: "a: b",
+      comment: "a #b",
+      interpolation: '${! @webhook_status | "200" }',
+      variable: "${S2_BASIN}",
+      anchor: "&a",
+      alias: "*a",
+      tag: "!tag",
+      boolean: "true",
+      yes: "yes",
+      null_word: "null",
+      tilde: "~",
+      number: "123",
+      float: "1.5",
+      negative: "-1",
+      hex: "0x1f",
+      empty: "",
+      trailing_space: "a ",
+      leading_space: " a",
+      percent: "%x",
+      at: "@x",
+      backtick: "`x`",
+    };
+    expect(roundTrip(values)).toEqual(values);
+    expect(toYAML({ path: "/webhooks/resend" })).toBe(
+      "path: /webhooks/resend\n"
+    );
+  });
+
+  test("handles nested arrays and empty collections", () => {
+    const value = {
+      matrix: [[1, 2], [[3]], [], [{ a: 1, b: [] }]],
+      empty_object: {},
+      empty_array: [],
+      items: [{}, { sync_response: {} }, null, true, 0],
+    };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  test("preserves trailing newlines and leading indentation", () => {
+    const value = {
+      no_newline: "a\nb",
+      one_newline: "a\nb\n",
+      many_newlines: "a\nb\n\n\n",
+      leading_blank: "\n\nroot = this",
+      indented: "  indented\nnot",
+      indented_item: ["  indented\nnot"],
+      blank_lines: "a\n\n\nb",
+      whitespace_lines: "a\n   \nb",
+      only_whitespace: "  \n  ",
+      tabs: "a\n\tb",
+      carriage_return: "a\r\nb",
+    };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  test("skips undefined values", () => {
+    expect(toYAML({ a: 1, b: undefined })).toBe("a: 1\n");
+  });
+
+  test("round-trips a stream configuration", () => {
+    const stream = {
+      input: {
+        http_server: {
+          path: "/webhooks/resend",
+          allowed_verbs: ["POST"],
+          timeout: "5s",
+          sync_response: { status: '${! @webhook_status | "200" }' },
+        },
+      },
+      pipeline: {
+        processors: [
+          {
+            bloblang:
+              'meta webhook_status = if this._rejected != null { "401" } else { "200" }\nroot = this._payload',
+          },
+          {
+            script: {
+              language: "javascript",
+              code: '\nimport { verifyWebhook } from "./svix.ts";\nconst secret = "${RESEND_WEBHOOK_SECRET}";\n',
+            },
+          },
+        ],
+      },
+      output: {
+        switch: {
+          cases: [
+            {
+              check: '@webhook_status == "401"',
+              output: { sync_response: {} },
+            },
+            {
+              output: {
+                s2: {
+                  basin: "${S2_BASIN}",
+                  stream: '${!this.data.to[0].split("@")[0]}',
+                },
+              },
+            },
+          ],
+        },
+      },
+    };
+    expect(roundTrip(stream)).toEqual(stream);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * YAML Emitter for Bento Stream Configurations
+ *
+ * Emits block-style YAML that parses back into the same object:
+ * - multi-line strings (bloblang, script code) become literal block scalars (|)
+ * - strings that YAML would read as something else (numbers, booleans, null,
+ *   flow collections, comments, anchors, "- " items, ...) are double-quoted
+ * - empty objects and arrays are written as {} and []
+ * - undefined values are skipped, like JSON.stringify does
+ */
+
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+const NUMBER_LIKE = /^[-+]?(\.?\d|0[box])/i;
+const PLAIN_SAFE = /^[A-Za-z0-9_/][A-Za-z0-9_ ./@()-]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Non-empty objects and arrays are written as indented blocks
+function isBlockCollection(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return isPlainObject(value) && Object.keys(value).length > 0;
+}
+
+// Whether a string can be written as a literal block scalar
+function isBlockString(value: unknown): value is string {
+  if (typeof value !== "string" || !value.includes("\n")) {
+    return false;
+  }
+  // Control characters (other than tab and newline) need escaping
+  if (/[\x00-\x08\x0b-\x1f\x7f]/.test(value)) {
+    return false;
+  }
+  // Whitespace-only lines before the first content line would confuse
+  // indentation detection
+  const lines = value.split("\n");
+  const firstContent = lines.findIndex((line) => line.trim() !== "");
+  if (firstContent === -1) {
+    return false;
+  }
+  return lines.slice(0, firstContent).every((line) => line === "");
+}
+
+// Whether the first content line of a block string starts with a space, which
+// needs an explicit indentation indicator
+function startsIndented(value: string): boolean {
+  const firstContent = value.split("\n").find((line) => line.trim() !== "");
+  return !!firstContent?.startsWith(" ");
+}
+
+// Format a scalar (or empty collection) on a single line
+function formatScalar(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+  if (isPlainObject(value)) {
+    return "{}";
+  }
+
+  const text = String(value);
+  if (
+    PLAIN_SAFE.test(text) &&
+    !text.endsWith(" ") &&
+    !RESERVED_WORDS.test(text) &&
+    !NUMBER_LIKE.test(text)
+  ) {
+    return text;
+  }
+  // JSON strings are valid YAML double-quoted scalars
+  return JSON.stringify(text);
+}
+
+// Header and content lines of a literal block scalar, indented by `indent`
+// The indentation indicator is relative to the parent key, which is always
+// 2 less than `indent`; sequences never pass strings that need one
+function formatBlockString(
+  value: string,
+  indent: number
+): { header: string; lines: string[] } {
+  const trailing = value.length - value.replace(/\n+$/, "").length;
+  const chomping = trailing === 0 ? "-" : trailing === 1 ? "" : "+";
+  const body = trailing === 0 ? value : value.slice(0, -1);
+  const indicator = startsIndented(body) ? "2" : "";
+
+  const pad = " ".repeat(indent);
+  return {
+    header: `|${indicator}${chomping}`,
+    lines: body.split("\n").map((line) => (line === "" ? "" : pad + line)),
+  };
+}
+
+// Render a non-empty object or array as block lines at `indent`
+function renderBlock(value: unknown, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isBlockCollection(item)) {
+        // First line of the nested block goes right after "- "
+        const nested = renderBlock(item, indent + 2);
+        lines.push(`${pad}- ${nested[0]!.slice(indent + 2)}`);
+        lines.push(...nested.slice(1));
+      } else if (isBlockString(item) && !startsIndented(item)) {
+        // Indented block strings in sequences fall back to double quotes
+        const block = formatBlockString(item, indent + 2);
+        lines.push(`${pad}- ${block.header}`);
+        lines.push(...block.lines);
+      } else {
+        // JSON null for undefined items, like JSON.stringify
+        lines.push(`${pad}- ${formatScalar(item === undefined ? null : item)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (item === undefined) {
+      continue;
+    }
+    const formattedKey = formatScalar(key);
+    if (isBlockCollection(item)) {
+      lines.push(`${pad}${formattedKey}:`);
+      lines.push(...renderBlock(item, indent + 2));
+    } else if (isBlockString(item)) {
+      const block = formatBlockString(item, indent + 2);
+      lines.push(`${pad}${formattedKey}: ${block.header}`);
+      lines.push(...block.lines);
+    } else {
+      lines.push(`${pad}${formattedKey}: ${formatScalar(item)}`);
+    }
+  }
+  return lines;
+}
+
+// Convert a value to a YAML document
+export function toYAML(value: unknown): string {
+  if (isBlockCollection(value)) {
+    return renderBlock(value, 0).join("\n") + "\n";
+  }
+  return formatScalar(value) + "\n";
+}
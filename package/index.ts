@@ -9,6 +9,7 @@ export interface EmailAddress {
 }
 
 export interface EmailAttachment {
+  id?: string; // Resend attachment id, used to fetch the content
   filename: string;
   content_type: string;
   size: number;
@@ -41,3 +42,188 @@ export interface ResendWebhookPayload {
   data: Email;
 }
 
+/**
+ * Tool Result Types
+ * A tool returns either a plain string (wrapped into the default reply) or a
+ * ToolResult describing the reply in detail
+ */
+
+export interface ToolResultAttachment {
+  filename: string;
+  content: Uint8Array | string; // raw bytes, or a base64 encoded string
+  content_type?: string;
+}
+
+export interface ToolResult {
+  subject?: string; // defaults to "Re: <original subject>"
+  html?: string;
+  text?: string;
+  to?: string[]; // extra recipients, in addition to the original sender
+  cc?: string[];
+  bcc?: string[];
+  reply_to?: string | string[];
+  attachments?: ToolResultAttachment[];
+  noReply?: boolean; // don't send any reply
+}
+
+export type ToolOutput = string | ToolResult;
+
+/**
+ * Tool Email Types
+ * The Email a tool receives: attachments can load their content lazily
+ */
+
+export interface ToolAttachment extends EmailAttachment {
+  getContent(): Promise<Uint8Array>; // rejects if the attachment exceeds the size limit
+}
+
+export interface ToolEmail extends Omit<Email, "attachments"> {
+  attachments?: ToolAttachment[];
+}
+
+export type ToolFunction = (
+  email: ToolEmail
+) => ToolOutput | Promise<ToolOutput>;
+
+/**
+ * Tool Failure Reply
+ * Exported as $FAILURE_REPLY from index.ts to tell the sender when a tool
+ * fails. Every field may use the placeholders {{tool}}, {{subject}}, {{from}}
+ * and {{error}} (the error message)
+ */
+
+export interface ToolFailureReply {
+  subject?: string; // defaults to "Re: <original subject>"
+  html?: string;
+  text?: string;
+}
+
+/**
+ * Bento Stream Definition Types
+ * Typed versions of the Bento components used by the stream definitions, so
+ * misspelled fields fail type checking instead of failing in Bento
+ */
+
+export type HttpVerb = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface HttpServerInputConfig {
+  path: string;
+  allowed_verbs?: HttpVerb[];
+  timeout?: string;
+  address?: string;
+  rate_limit?: string;
+  sync_response?: {
+    status?: string;
+    headers?: Record<string, string>;
+  };
+}
+
+export interface S2InputConfig {
+  basin: string;
+  streams: string | string[];
+  auth_token: string;
+  endpoint?: string; // S2 API endpoint override, e.g. a local stand-in
+  cache?: string;
+}
+
+export interface S2OutputConfig {
+  basin: string;
+  stream: string;
+  auth_token: string;
+  endpoint?: string; // S2 API endpoint override, e.g. a local stand-in
+  max_in_flight?: number;
+}
+
+export interface HttpClientOutputConfig {
+  url: string;
+  verb?: HttpVerb;
+  headers?: Record<string, string>;
+  timeout?: string;
+  retries?: number;
+  max_in_flight?: number;
+}
+
+export interface ScriptProcessorConfig {
+  language: "javascript";
+  code: string;
+}
+
+export type BentoInput =
+  | { label?: string; http_server: HttpServerInputConfig }
+  | { label?: string; s2: S2InputConfig };
+
+export type BentoProcessor =
+  | { label?: string; bloblang: string }
+  | { label?: string; script: ScriptProcessorConfig };
+
+export interface BrokerOutputConfig {
+  // fan_out_sequential writes to an output only once the previous one succeeded
+  pattern?: "fan_out" | "fan_out_sequential" | "round_robin" | "greedy";
+  outputs: BentoOutput[];
+}
+
+export interface SwitchOutputCase {
+  check?: string;
+  output: BentoOutput;
+  continue?: boolean;
+}
+
+// Fields every output accepts besides its component
+export interface BentoOutputFields {
+  label?: string;
+  processors?: BentoProcessor[]; // applied to messages before they are written
+}
+
+export type BentoOutput = BentoOutputFields &
+  (
+    | { s2: S2OutputConfig }
+    | { http_client: HttpClientOutputConfig }
+    | { sync_response: Record<string, never> }
+    | { switch: { cases: SwitchOutputCase[] } }
+    | { broker: BrokerOutputConfig }
+    | { drop: Record<string, never> }
+  );
+
+export interface BentoStreamDefinition {
+  input: BentoInput;
+  pipeline?: {
+    processors: BentoProcessor[];
+  };
+  output: BentoOutput;
+}
+
+/**
+ * Bento Stream Definition Helpers
+ * Identity functions that only add type checking: the result is the same plain
+ * object a hand-written definition would be
+ */
+
+export function defineStream(
+  definition: BentoStreamDefinition
+): BentoStreamDefinition {
+  return definition;
+}
+
+export function httpServer(config: HttpServerInputConfig) {
+  return { http_server: config };
+}
+
+export function s2Input(config: S2InputConfig) {
+  return { s2: config };
+}
+
+export function s2Output(config: S2OutputConfig) {
+  return { s2: config };
+}
+
+export function httpClient(config: HttpClientOutputConfig) {
+  return { http_client: config };
+}
+
+export function bloblang(mapping: string) {
+  return { bloblang: mapping };
+}
+
+export function script(config: ScriptProcessorConfig) {
+  return { script: config };
+}
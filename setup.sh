@@ -402,6 +402,7 @@ sed -e "s|\${S2_BASIN}|${S2_BASIN}|g" \
 log_info "Configuring Systemd service..."
 cp "${TEMPLATE_DIR}/systemd/bento.service" /etc/systemd/system/bento.service
 sed -e "s|\${TOOLS_ROOT_GITHUB}|${TOOLS_ROOT_GITHUB}|g" \
+    -e "s|\${GITHUB_PAT}|${GITHUB_PAT}|g" \
     "${TEMPLATE_DIR}/systemd/bento-sync.service" > /etc/systemd/system/bento-sync.service
 cp "${TEMPLATE_DIR}/systemd/bento-sync.timer" /etc/systemd/system/bento-sync.timer
 
@@ -467,6 +468,11 @@ if [[ "$TOOLS_ROOT_GITHUB" =~ ^https://github\.com/([^/]+)/([^/]+)(/([^/]+))?(/(
         if [ -n "$PATH_PART" ]; then
             PATH_PART="${PATH_PART%/}"
             if [ -d "/opt/bento-sync/${PATH_PART}" ]; then
+                # Keep the bentotools package next to it, the tools depend on it as file:../package
+                if [ -d "/opt/bento-sync/package" ]; then
+                    rm -rf /opt/package
+                    mv /opt/bento-sync/package /opt/package
+                fi
                 # Move the subdirectory to be the root
                 mv "/opt/bento-sync/${PATH_PART}" /opt/bento-sync-tmp
                 rm -rf /opt/bento-sync
@@ -501,10 +507,12 @@ log_info "Running initial Bento tools sync..."
 cd /opt/bento-sync
 if ! BENTO_API_URL="http://localhost:4195" \
 TOOLS_ROOT_GITHUB="${TOOLS_ROOT_GITHUB}" \
+GITHUB_PAT="${GITHUB_PAT}" \
 S2_BASIN="${S2_BASIN}" \
 BASE_DOMAIN="${BASE_DOMAIN}" \
 S2_ACCESS_TOKEN="${S2_ACCESS_TOKEN}" \
 RESEND_API_KEY="${RESEND_API_KEY}" \
+RESEND_WEBHOOK_SECRET="${RESEND_WEBHOOK_SECRET}" \
 bun sync.ts; then
     log_error "Initial Bento tools sync failed"
     log_error "This is required for the system to function properly."